@@ -0,0 +1,68 @@
+import type { ExecutionEvent } from "@/lib/code-execution";
+import { mockExecute } from "@/lib/mock-code-executor";
+
+// This route forwards code execution requests to a local execution sidecar,
+// for example a Julia REPL server, and streams its output back as
+// newline-delimited JSON. Set CODE_EXECUTION_BACKEND_URL to the URL of the
+// sidecar, or leave it unset (or set it to "mock") to use a mock executor.
+
+const NDJSON_HEADERS = { "Content-Type": "application/x-ndjson" };
+
+function toLine(event: ExecutionEvent) {
+  return `${JSON.stringify(event)}\n`;
+}
+
+function errorResponse(message: string, status: number) {
+  return new Response(
+    toLine({ type: "error", message }) + toLine({ type: "done" }),
+    { status, headers: NDJSON_HEADERS },
+  );
+}
+
+export async function POST(req: Request) {
+  let body: { code?: unknown; language?: unknown };
+  try {
+    body = await req.json();
+  } catch {
+    return errorResponse("Request body must be JSON.", 400);
+  }
+  if (typeof body.code !== "string" || typeof body.language !== "string") {
+    return errorResponse("Both `code` and `language` must be strings.", 400);
+  }
+
+  const backendUrl = process.env.CODE_EXECUTION_BACKEND_URL;
+  if (!backendUrl || backendUrl === "mock") {
+    const events = mockExecute(body.code);
+    const encoder = new TextEncoder();
+    const stream = new ReadableStream({
+      async pull(controller) {
+        const { done, value } = await events.next();
+        if (done) {
+          controller.close();
+        } else {
+          controller.enqueue(encoder.encode(toLine(value)));
+        }
+      },
+    });
+    return new Response(stream, { headers: NDJSON_HEADERS });
+  }
+
+  try {
+    const upstream = await fetch(backendUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ code: body.code, language: body.language }),
+      signal: req.signal,
+    });
+    return new Response(upstream.body, {
+      status: upstream.status,
+      headers: NDJSON_HEADERS,
+    });
+  } catch (e) {
+    console.error("Failed to reach code execution backend", e);
+    return errorResponse(
+      `Failed to reach the code execution backend at ${backendUrl}.`,
+      502,
+    );
+  }
+}
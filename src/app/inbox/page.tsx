@@ -0,0 +1,26 @@
+"use client";
+
+import { ReviewInbox } from "@/components/inbox";
+import { ArtifactProvider } from "@/components/thread/artifact";
+import { CodeBlockActionsContext } from "@/hooks/use-code-block-actions";
+import { StreamProvider } from "@/providers/Stream";
+import { ThreadProvider } from "@/providers/Thread";
+import { Toaster } from "@/components/ui/sonner";
+import React from "react";
+
+export default function InboxPage(): React.ReactNode {
+  return (
+    <React.Suspense fallback={<div>Loading (layout)...</div>}>
+      <Toaster />
+      <ThreadProvider>
+        <StreamProvider>
+          <ArtifactProvider>
+            <CodeBlockActionsContext.Provider value={false}>
+              <ReviewInbox />
+            </CodeBlockActionsContext.Provider>
+          </ArtifactProvider>
+        </StreamProvider>
+      </ThreadProvider>
+    </React.Suspense>
+  );
+}
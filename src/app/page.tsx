@@ -4,6 +4,7 @@ import { Thread } from "@/components/thread";
 import { StreamProvider } from "@/providers/Stream";
 import { ThreadProvider } from "@/providers/Thread";
 import { ArtifactProvider } from "@/components/thread/artifact";
+import { CodeDiffProvider } from "@/components/thread/code-diff";
 import { Toaster } from "@/components/ui/sonner";
 import React from "react";
 
@@ -14,7 +15,9 @@ export default function DemoPage(): React.ReactNode {
       <ThreadProvider>
         <StreamProvider>
           <ArtifactProvider>
-            <Thread />
+            <CodeDiffProvider>
+              <Thread />
+            </CodeDiffProvider>
           </ArtifactProvider>
         </StreamProvider>
       </ThreadProvider>
@@ -0,0 +1,176 @@
+"use client";
+
+import { ChangeEvent, useRef, useState } from "react";
+import isEqual from "lodash/isEqual";
+import { toast } from "sonner";
+import { Download, RotateCcw, Save, Trash2, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useConfigPresets } from "@/hooks/use-config-presets";
+import {
+  parseConfigPresets,
+  serializeConfigPresets,
+} from "@/lib/config-storage";
+import { cn, downloadFile } from "@/lib/utils";
+import type { RunnableConfig } from "./runnable-config-panel";
+import { selectClassName } from "./styles";
+
+export function ConfigPresets({
+  config,
+  onConfigChange,
+  onReset,
+}: {
+  config: RunnableConfig;
+  onConfigChange: (config: RunnableConfig) => void;
+  /**
+   * Resets the config to the defaults declared in the server's config schema.
+   */
+  onReset: () => void;
+}) {
+  const { presets, savePreset, deletePreset, importPresets } =
+    useConfigPresets();
+  const [presetName, setPresetName] = useState("");
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // A preset is active if the current config is identical to it.
+  const activePreset = presets.find((p) => isEqual(p.config, config));
+
+  const handleSave = () => {
+    if (!presetName.trim()) return;
+    const preset = savePreset(presetName, config);
+    setPresetName("");
+    toast("Preset saved", { description: preset.name, duration: 3000 });
+  };
+
+  const handleImport = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    try {
+      const imported = parseConfigPresets(await file.text());
+      importPresets(imported);
+      toast("Presets imported", {
+        description: `Imported ${imported.length} preset${imported.length === 1 ? "" : "s"}.`,
+        duration: 3000,
+      });
+    } catch (error) {
+      console.error("Failed to import presets", error);
+      toast.error("Failed to import presets", {
+        description:
+          error instanceof Error ? error.message : "Invalid presets file.",
+        richColors: true,
+        closeButton: true,
+      });
+    }
+  };
+
+  const handleExport = () => {
+    downloadFile(
+      "jutulgpt-config-presets.json",
+      serializeConfigPresets(presets),
+      "application/json",
+    );
+  };
+
+  return (
+    <div className="space-y-4 rounded-lg bg-gray-50 p-4">
+      <div className="flex items-center justify-between gap-2">
+        <Label className="text-base font-semibold">Presets</Label>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onReset}
+        >
+          <RotateCcw className="h-4 w-4" />
+          Reset to server defaults
+        </Button>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <select
+          value={activePreset?.id ?? ""}
+          onChange={(e) => {
+            const preset = presets.find((p) => p.id === e.target.value);
+            if (preset) onConfigChange(preset.config);
+          }}
+          className={cn(selectClassName, "flex-1")}
+          disabled={presets.length === 0}
+        >
+          <option value="">
+            {presets.length === 0 ? "No saved presets" : "Custom"}
+          </option>
+          {presets.map((preset) => (
+            <option
+              key={preset.id}
+              value={preset.id}
+            >
+              {preset.name}
+            </option>
+          ))}
+        </select>
+        <Button
+          variant="ghost"
+          size="icon"
+          aria-label="Delete preset"
+          disabled={!activePreset}
+          onClick={() => activePreset && deletePreset(activePreset.id)}
+        >
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <form
+        className="flex items-center gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          handleSave();
+        }}
+      >
+        <Input
+          value={presetName}
+          onChange={(e) => setPresetName(e.target.value)}
+          placeholder="Save current config as..."
+          className="bg-background flex-1"
+        />
+        <Button
+          type="submit"
+          variant="outline"
+          size="sm"
+          disabled={!presetName.trim()}
+        >
+          <Save className="h-4 w-4" />
+          Save
+        </Button>
+      </form>
+
+      <div className="flex items-center justify-end gap-2">
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          onChange={handleImport}
+          className="hidden"
+        />
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => fileInputRef.current?.click()}
+        >
+          <Upload className="h-4 w-4" />
+          Import
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleExport}
+          disabled={presets.length === 0}
+        >
+          <Download className="h-4 w-4" />
+          Export
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+"use client";
+
+import { useState } from "react";
+import { History, TriangleAlert } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { diffConfigs, formatConfigValue } from "@/lib/config-diff";
+import type { RunnableConfig } from "./runnable-config-panel";
+
+/**
+ * Header badge showing the config used by the latest run of the current
+ * thread, and how the active config differs from it.
+ */
+export function ThreadConfigIndicator({
+  threadConfig,
+  config,
+  onRestore,
+}: {
+  threadConfig: RunnableConfig | undefined;
+  config: RunnableConfig;
+  onRestore: (config: RunnableConfig) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  if (!threadConfig) return null;
+
+  const diff = diffConfigs(threadConfig, config);
+  const hasChanges = diff.length > 0;
+  const responseModel = threadConfig.configurable?.response_model;
+
+  return (
+    <div className="relative">
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => setOpen((o) => !o)}
+        className={cn(
+          "flex items-center gap-2",
+          hasChanges && "border-amber-400 text-amber-700",
+        )}
+      >
+        {hasChanges ? (
+          <TriangleAlert className="h-4 w-4" />
+        ) : (
+          <History className="h-4 w-4" />
+        )}
+        <span className="max-w-40 truncate">
+          {hasChanges
+            ? `Config changed (${diff.length})`
+            : typeof responseModel === "string"
+              ? responseModel
+              : "Thread config"}
+        </span>
+      </Button>
+
+      {open && (
+        <div className="absolute top-full right-0 z-50 mt-2 w-[28rem] rounded-lg border bg-white p-4 text-sm shadow-lg">
+          <p className="font-semibold">Config of the latest run</p>
+          {hasChanges ? (
+            <>
+              <p className="text-muted-foreground mt-1 text-xs">
+                The current config differs from the one this thread was last run
+                with. New messages will use the current config unless you apply
+                the thread config.
+              </p>
+              <table className="mt-3 w-full table-fixed text-xs">
+                <thead>
+                  <tr className="text-left text-gray-500">
+                    <th className="w-2/5 pb-1 font-medium">Field</th>
+                    <th className="pb-1 font-medium">Thread</th>
+                    <th className="pb-1 font-medium">Current</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {diff.map((entry) => (
+                    <tr key={entry.path}>
+                      <td className="py-1 pr-2 font-mono break-all">
+                        {entry.path}
+                      </td>
+                      <td className="py-1 pr-2 break-all text-red-600">
+                        {formatConfigValue(entry.before)}
+                      </td>
+                      <td className="py-1 break-all text-green-700">
+                        {formatConfigValue(entry.after)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <div className="mt-3 flex justify-end">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => {
+                    onRestore(threadConfig);
+                    setOpen(false);
+                  }}
+                >
+                  Apply thread config
+                </Button>
+              </div>
+            </>
+          ) : (
+            <pre className="mt-2 max-h-64 overflow-auto rounded bg-gray-50 p-2 font-mono text-xs">
+              {JSON.stringify(threadConfig.configurable ?? {}, null, 2)}
+            </pre>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+import { Check, Trash2 } from "lucide-react";
+import type { AgentInbox } from "@/components/thread/agent-inbox/types";
+import { ConnectionStatus, getConnectionLabel } from "@/lib/connections";
+import { cn } from "@/lib/utils";
+
+const STATUS_STYLES: Record<ConnectionStatus, string> = {
+  checking: "animate-pulse bg-gray-300",
+  online: "bg-green-500",
+  offline: "bg-red-500",
+  unauthorized: "bg-amber-500",
+  missing: "bg-amber-500",
+};
+
+const STATUS_LABELS: Record<ConnectionStatus, string> = {
+  checking: "Checking...",
+  online: "Online",
+  offline: "Unreachable",
+  unauthorized: "API key rejected",
+  missing: "Assistant / graph not found",
+};
+
+function StatusDot({ status }: { status: ConnectionStatus | undefined }) {
+  return (
+    <span
+      className={cn(
+        "size-2 shrink-0 rounded-full",
+        status ? STATUS_STYLES[status] : "bg-gray-200",
+      )}
+      title={status ? STATUS_LABELS[status] : "Status unknown"}
+    />
+  );
+}
+
+/**
+ * Saved connections with their health status. Selecting one switches the
+ * deployment and assistant the chat talks to.
+ */
+export function ConnectionList({
+  connections,
+  statuses,
+  currentId,
+  disabled,
+  onSelect,
+  onDelete,
+}: {
+  connections: AgentInbox[];
+  statuses: Record<string, ConnectionStatus>;
+  currentId?: string;
+  disabled?: boolean;
+  onSelect: (connection: AgentInbox) => void;
+  onDelete: (connection: AgentInbox) => void;
+}) {
+  if (connections.length === 0) {
+    return <p className="text-sm text-gray-500">No saved connections yet.</p>;
+  }
+
+  return (
+    <ul className="flex flex-col gap-1">
+      {connections.map((connection) => {
+        const isCurrent = connection.id === currentId;
+        return (
+          <li
+            key={connection.id}
+            className={cn(
+              "flex items-center gap-2 rounded-md px-2 py-1.5",
+              isCurrent ? "bg-gray-100" : "hover:bg-gray-50",
+            )}
+          >
+            <StatusDot status={statuses[connection.id]} />
+            <button
+              type="button"
+              className="min-w-0 flex-1 cursor-pointer text-left disabled:cursor-not-allowed"
+              onClick={() => onSelect(connection)}
+              disabled={disabled || isCurrent}
+            >
+              <p className="truncate text-sm font-medium">
+                {getConnectionLabel(connection)}
+              </p>
+              <p className="truncate text-xs text-gray-500">
+                {connection.deploymentUrl} · {connection.graphId}
+              </p>
+            </button>
+            {isCurrent && <Check className="size-4 shrink-0 text-gray-700" />}
+            <button
+              type="button"
+              className="shrink-0 cursor-pointer rounded p-1 text-gray-400 hover:bg-gray-200 hover:text-gray-700"
+              onClick={() => onDelete(connection)}
+              title="Remove connection"
+            >
+              <Trash2 className="size-3.5" />
+            </button>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
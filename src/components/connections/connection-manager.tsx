@@ -0,0 +1,211 @@
+import { FormEvent, useEffect, useRef, useState } from "react";
+import { Plus, RefreshCw, Server } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { TooltipIconButton } from "@/components/thread/tooltip-icon-button";
+import type { AgentInbox } from "@/components/thread/agent-inbox/types";
+import { useConnections } from "@/hooks/use-connections";
+import { getConnectionLabel } from "@/lib/connections";
+import { cn } from "@/lib/utils";
+import { useStreamContext } from "@/providers/Stream";
+import { ConnectionList } from "./connection-list";
+
+function AddConnectionForm({
+  onSave,
+}: {
+  onSave: (values: {
+    name: string;
+    deploymentUrl: string;
+    graphId: string;
+  }) => void;
+}) {
+  const handleSubmit = (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const form = e.currentTarget;
+    const formData = new FormData(form);
+    onSave({
+      name: formData.get("name") as string,
+      deploymentUrl: formData.get("deploymentUrl") as string,
+      graphId: formData.get("graphId") as string,
+    });
+    form.reset();
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="flex flex-col gap-2"
+    >
+      <Input
+        name="name"
+        placeholder="Name, e.g. Local Ollama"
+        className="h-8 text-sm"
+      />
+      <Input
+        name="deploymentUrl"
+        placeholder="http://localhost:2024"
+        className="h-8 text-sm"
+        required
+      />
+      <Input
+        name="graphId"
+        placeholder="Assistant / graph ID"
+        className="h-8 text-sm"
+        required
+      />
+      <Button
+        type="submit"
+        size="sm"
+      >
+        <Plus className="size-4" />
+        Add connection
+      </Button>
+    </form>
+  );
+}
+
+/**
+ * Header menu listing the saved connections, for switching between
+ * deployments and assistants without retyping their URLs.
+ */
+export function ConnectionManager() {
+  const stream = useStreamContext();
+  const {
+    connections,
+    currentApiUrl,
+    currentAssistantId,
+    currentConnection,
+    statuses,
+    saveConnection,
+    deleteConnection,
+    selectConnection,
+    checkConnections,
+  } = useConnections();
+  const [open, setOpen] = useState(false);
+  const [adding, setAdding] = useState(false);
+  const [currentName, setCurrentName] = useState("");
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const close = (e: MouseEvent) => {
+      if (!ref.current?.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener("mousedown", close);
+    return () => document.removeEventListener("mousedown", close);
+  }, [open]);
+
+  const toggle = () => {
+    if (!open) checkConnections();
+    setOpen((o) => !o);
+  };
+
+  const handleSelect = (connection: AgentInbox) => {
+    selectConnection(connection);
+    setOpen(false);
+    toast("Switched connection", {
+      description: getConnectionLabel(connection),
+      duration: 3000,
+    });
+  };
+
+  const handleSaveCurrent = () => {
+    saveConnection({
+      name: currentName,
+      deploymentUrl: currentApiUrl,
+      graphId: currentAssistantId,
+    });
+    setCurrentName("");
+  };
+
+  return (
+    <div
+      ref={ref}
+      className="relative"
+    >
+      <TooltipIconButton
+        size="lg"
+        className={cn("p-4", open && "bg-gray-100")}
+        tooltip={
+          currentConnection
+            ? `Connection: ${getConnectionLabel(currentConnection)}`
+            : "Connections"
+        }
+        variant="ghost"
+        onClick={toggle}
+      >
+        <Server className="size-5" />
+      </TooltipIconButton>
+      {open && (
+        <div className="absolute top-full right-0 z-50 mt-2 flex w-96 flex-col gap-3 rounded-md border bg-white p-3 shadow-lg">
+          <div className="flex items-center justify-between">
+            <p className="text-sm font-semibold">Connections</p>
+            <button
+              type="button"
+              className="cursor-pointer rounded p-1 text-gray-500 hover:bg-gray-100"
+              onClick={checkConnections}
+              title="Check status"
+            >
+              <RefreshCw className="size-4" />
+            </button>
+          </div>
+          <p className="-mt-2 text-xs text-gray-500">
+            Connections don&apos;t store an API key. The key entered in the
+            setup form is used for all of them, including the status checks.
+          </p>
+          <ConnectionList
+            connections={connections}
+            statuses={statuses}
+            currentId={currentConnection?.id}
+            disabled={stream.isLoading}
+            onSelect={handleSelect}
+            onDelete={(connection) => deleteConnection(connection.id)}
+          />
+          {!currentConnection && (
+            <div className="flex flex-col gap-2 border-t pt-3">
+              <p className="truncate text-xs text-gray-500">
+                Current: {currentApiUrl} · {currentAssistantId}
+              </p>
+              <div className="flex gap-2">
+                <Input
+                  value={currentName}
+                  onChange={(e) => setCurrentName(e.target.value)}
+                  placeholder="Name"
+                  className="h-8 text-sm"
+                />
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={handleSaveCurrent}
+                >
+                  Save current
+                </Button>
+              </div>
+            </div>
+          )}
+          <div className="border-t pt-3">
+            {adding ? (
+              <AddConnectionForm
+                onSave={(values) => {
+                  saveConnection(values);
+                  setAdding(false);
+                }}
+              />
+            ) : (
+              <Button
+                size="sm"
+                variant="ghost"
+                className="w-full"
+                onClick={() => setAdding(true)}
+              >
+                <Plus className="size-4" />
+                Add connection
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,235 @@
+import { useEffect, useRef, useState } from "react";
+import { useRouter } from "next/navigation";
+import { useQueryState } from "nuqs";
+import { ArrowLeft, Inbox, LoaderCircle, RefreshCw } from "lucide-react";
+import type { Command } from "@langchain/langgraph-sdk";
+import { Button } from "@/components/ui/button";
+import { ThreadView } from "@/components/thread/agent-inbox";
+import { ThreadIdTooltip } from "@/components/thread/agent-inbox/components/thread-id";
+import { TooltipIconButton } from "@/components/thread/tooltip-icon-button";
+import { InterruptPolicyManager } from "@/components/interrupt-policies/policy-manager";
+import { getThreadConfig } from "@/hooks/use-thread-config";
+import { useInterruptedThreads } from "@/hooks/use-interrupted-threads";
+import { cn } from "@/lib/utils";
+import { useStreamContext } from "@/providers/Stream";
+import { PendingInterrupt } from "./utils";
+
+/**
+ * Builds a link to a page of the app which keeps the current connection.
+ */
+function useAppHref() {
+  const [apiUrl] = useQueryState("apiUrl");
+  const [assistantId] = useQueryState("assistantId");
+
+  return (pathname: string, params: Record<string, string> = {}) => {
+    const search = new URLSearchParams({
+      ...(apiUrl && { apiUrl }),
+      ...(assistantId && { assistantId }),
+      ...params,
+    }).toString();
+    return search ? `${pathname}?${search}` : pathname;
+  };
+}
+
+/**
+ * Header button opening the review queue, with the number of pending
+ * interrupts across threads.
+ */
+export function ReviewQueueButton() {
+  const router = useRouter();
+  const appHref = useAppHref();
+  const { isLoading } = useStreamContext();
+  const { items, refresh } = useInterruptedThreads();
+
+  // A run of the current thread may have been interrupted, or resumed.
+  const wasLoading = useRef(isLoading);
+  useEffect(() => {
+    if (wasLoading.current && !isLoading) refresh();
+    wasLoading.current = isLoading;
+  }, [isLoading, refresh]);
+
+  return (
+    <TooltipIconButton
+      size="lg"
+      className="relative p-4"
+      tooltip={
+        items.length > 0
+          ? `Review queue (${items.length} pending)`
+          : "Review queue"
+      }
+      variant="ghost"
+      onClick={() => router.push(appHref("/inbox"))}
+    >
+      <Inbox className="size-5" />
+      {items.length > 0 && (
+        <span className="absolute top-1 right-1 flex size-4 items-center justify-center rounded-full bg-red-500 text-[10px] font-medium text-white">
+          {items.length > 9 ? "9+" : items.length}
+        </span>
+      )}
+    </TooltipIconButton>
+  );
+}
+
+function QueueItem({
+  item,
+  selected,
+  onSelect,
+}: {
+  item: PendingInterrupt;
+  selected: boolean;
+  onSelect: () => void;
+}) {
+  const [request, ...rest] = item.interrupts.map((entry) => entry.request);
+  return (
+    <button
+      className={cn(
+        "flex w-full cursor-pointer flex-col items-start gap-1 rounded-md border px-3 py-2 text-left",
+        selected ? "border-gray-900 bg-gray-100" : "bg-white hover:bg-gray-50",
+      )}
+      onClick={onSelect}
+    >
+      <div className="flex w-full items-center justify-between gap-2">
+        <span className="truncate text-sm font-medium">
+          {request.action_request.action || "Unknown"}
+          {rest.length > 0 && ` +${rest.length} more`}
+        </span>
+        <ThreadIdTooltip threadId={item.thread.thread_id} />
+      </div>
+      {request.description && (
+        <span className="line-clamp-2 text-xs text-gray-500">
+          {request.description}
+        </span>
+      )}
+      <span className="text-xs text-gray-400">
+        {new Date(item.thread.updated_at).toLocaleString()}
+      </span>
+    </button>
+  );
+}
+
+/**
+ * Page listing every thread of the current assistant which is waiting on a
+ * human-in-the-loop interrupt, so that each can be answered without opening
+ * the thread.
+ */
+export function ReviewInbox() {
+  const router = useRouter();
+  const appHref = useAppHref();
+  const { client } = useStreamContext();
+  const [assistantId] = useQueryState("assistantId");
+  const { items, otherThreads, loading, refresh, removeThread } =
+    useInterruptedThreads();
+  const [selectedId, setSelectedId] = useState<string>();
+
+  const selected = items.find((item) => item.id === selectedId) ?? items[0];
+
+  const submitCommand = async (item: PendingInterrupt, command: Command) => {
+    await client.runs.create(
+      item.thread.thread_id,
+      assistantId || process.env.NEXT_PUBLIC_ASSISTANT_ID || "",
+      {
+        command,
+        config: getThreadConfig(item.thread.metadata),
+      },
+    );
+    removeThread(item.thread.thread_id);
+  };
+
+  return (
+    <div className="flex h-screen w-full flex-col">
+      <div className="flex items-center gap-3 border-b p-2 pl-4">
+        <TooltipIconButton
+          size="lg"
+          className="p-4"
+          tooltip="Back to chat"
+          variant="ghost"
+          onClick={() => router.push(appHref("/"))}
+        >
+          <ArrowLeft className="size-5" />
+        </TooltipIconButton>
+        <h1 className="text-xl font-semibold tracking-tight">Review queue</h1>
+        <span className="text-sm text-gray-500">{items.length} pending</span>
+        <div className="ml-auto" />
+        <InterruptPolicyManager />
+        <TooltipIconButton
+          size="lg"
+          className="p-4"
+          tooltip="Refresh"
+          variant="ghost"
+          onClick={refresh}
+          disabled={loading}
+        >
+          {loading ? (
+            <LoaderCircle className="size-5 animate-spin" />
+          ) : (
+            <RefreshCw className="size-5" />
+          )}
+        </TooltipIconButton>
+      </div>
+
+      <div className="flex min-h-0 flex-1">
+        <div className="flex w-80 shrink-0 flex-col gap-2 overflow-y-auto border-r p-3">
+          {items.map((item) => (
+            <QueueItem
+              key={item.id}
+              item={item}
+              selected={item.id === selected?.id}
+              onSelect={() => setSelectedId(item.id)}
+            />
+          ))}
+          {!loading && items.length === 0 && (
+            <p className="p-2 text-sm text-gray-500">
+              No threads are waiting for review.
+            </p>
+          )}
+          {otherThreads.length > 0 && (
+            <div className="mt-2 flex flex-col gap-1 border-t pt-3">
+              <p className="text-xs text-gray-500">
+                Interrupted for other input, answer these in the thread:
+              </p>
+              {otherThreads.map((thread) => (
+                <button
+                  key={thread.thread_id}
+                  className="cursor-pointer truncate text-left font-mono text-xs text-gray-700 hover:underline"
+                  onClick={() =>
+                    router.push(appHref("/", { threadId: thread.thread_id }))
+                  }
+                >
+                  {thread.thread_id}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="flex min-w-0 flex-1 flex-col gap-3 overflow-y-auto p-6">
+          {selected && (
+            <>
+              <div className="flex justify-end">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() =>
+                    router.push(
+                      appHref("/", { threadId: selected.thread.thread_id }),
+                    )
+                  }
+                >
+                  Open thread
+                </Button>
+              </div>
+              <ThreadView
+                key={selected.id}
+                interrupts={selected.interrupts}
+                threadId={selected.thread.thread_id}
+                values={selected.thread.values}
+                interruptedAt={selected.thread.updated_at}
+                submitCommand={(command) => submitCommand(selected, command)}
+              />
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
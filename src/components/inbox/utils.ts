@@ -0,0 +1,41 @@
+import type { Thread } from "@langchain/langgraph-sdk";
+import {
+  getHumanInterruptEntries,
+  HumanInterruptEntry,
+} from "@/lib/agent-inbox-interrupt";
+import type { StateType } from "@/providers/Stream";
+
+/**
+ * An interrupted thread with the human-in-the-loop requests it is waiting on.
+ */
+export interface PendingInterrupt {
+  id: string;
+  thread: Thread<StateType>;
+  interrupts: HumanInterruptEntry[];
+}
+
+/**
+ * Collects the `HumanInterrupt` requests of interrupted threads. Threads
+ * interrupted for anything else are returned separately, as they can only be
+ * answered from the thread itself.
+ */
+export function getPendingInterrupts(threads: Thread<StateType>[]): {
+  items: PendingInterrupt[];
+  otherThreads: Thread<StateType>[];
+} {
+  const items: PendingInterrupt[] = [];
+  const otherThreads: Thread<StateType>[] = [];
+
+  for (const thread of threads) {
+    const interrupts = getHumanInterruptEntries(
+      Object.values(thread.interrupts ?? {}).flat(),
+    );
+    if (interrupts.length > 0) {
+      items.push({ id: thread.thread_id, thread, interrupts });
+    } else {
+      otherThreads.push(thread);
+    }
+  }
+
+  return { items, otherThreads };
+}
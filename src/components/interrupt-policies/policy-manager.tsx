@@ -0,0 +1,293 @@
+import { FormEvent, useEffect, useRef, useState } from "react";
+import {
+  ArrowDown,
+  ArrowUp,
+  Lock,
+  Plus,
+  ShieldCheck,
+  Trash2,
+} from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { selectClassName } from "@/components/config/styles";
+import { TooltipIconButton } from "@/components/thread/tooltip-icon-button";
+import { useInterruptPolicies } from "@/hooks/use-interrupt-policies";
+import {
+  BUILT_IN_INTERRUPT_POLICIES,
+  InterruptPolicyArgPattern,
+  InterruptPolicyDecision,
+  InterruptPolicyRule,
+  parseArgPatterns,
+} from "@/lib/interrupt-policies";
+import { cn } from "@/lib/utils";
+
+const DECISION_LABELS: Record<InterruptPolicyDecision, string> = {
+  accept: "Auto-accept",
+  ignore: "Auto-ignore",
+  prompt: "Always prompt",
+};
+
+const DECISION_STYLES: Record<InterruptPolicyDecision, string> = {
+  accept: "bg-green-100 text-green-800",
+  ignore: "bg-gray-100 text-gray-700",
+  prompt: "bg-amber-100 text-amber-800",
+};
+
+function AddRuleForm({
+  onSave,
+}: {
+  onSave: (values: {
+    action: string;
+    argPatterns: InterruptPolicyArgPattern[];
+    decision: InterruptPolicyDecision;
+  }) => void;
+}) {
+  const handleSubmit = (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const form = e.currentTarget;
+    const formData = new FormData(form);
+    const argPatterns = parseArgPatterns(formData.get("argPatterns") as string);
+
+    const invalid = argPatterns.find(({ pattern }) => {
+      try {
+        new RegExp(pattern);
+        return false;
+      } catch {
+        return true;
+      }
+    });
+    if (invalid) {
+      toast.error("Invalid pattern", {
+        description: `The pattern for "${invalid.arg}" is not a valid regular expression.`,
+        richColors: true,
+        closeButton: true,
+      });
+      return;
+    }
+
+    onSave({
+      action: formData.get("action") as string,
+      argPatterns,
+      decision: formData.get("decision") as InterruptPolicyDecision,
+    });
+    form.reset();
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="flex flex-col gap-2"
+    >
+      <Input
+        name="action"
+        placeholder="Action, e.g. retrieve_* or run_julia_code"
+        className="h-8 font-mono text-sm"
+        required
+      />
+      <Textarea
+        name="argPatterns"
+        placeholder={"Optional arg patterns, one per line:\nquery=Darcy.*"}
+        className="min-h-16 font-mono text-sm"
+        rows={2}
+      />
+      <select
+        name="decision"
+        defaultValue="accept"
+        className={cn(selectClassName, "h-8 py-1")}
+      >
+        {Object.entries(DECISION_LABELS).map(([value, label]) => (
+          <option
+            key={value}
+            value={value}
+          >
+            {label}
+          </option>
+        ))}
+      </select>
+      <Button
+        type="submit"
+        size="sm"
+      >
+        <Plus className="size-4" />
+        Add rule
+      </Button>
+    </form>
+  );
+}
+
+function RuleRow({
+  rule,
+  children,
+}: {
+  rule: InterruptPolicyRule;
+  /** Controls for the rule. */
+  children: React.ReactNode;
+}) {
+  return (
+    <li className="flex items-center gap-2 rounded-md px-2 py-1.5 hover:bg-gray-50">
+      <div className="min-w-0 flex-1">
+        <p className="truncate font-mono text-sm font-medium">{rule.action}</p>
+        {rule.argPatterns.map(({ arg, pattern }) => (
+          <p
+            key={arg}
+            className="truncate font-mono text-xs text-gray-500"
+          >
+            {arg} ~ /{pattern}/
+          </p>
+        ))}
+      </div>
+      <span
+        className={cn(
+          "shrink-0 rounded px-1.5 py-0.5 text-xs font-medium",
+          DECISION_STYLES[rule.decision],
+        )}
+      >
+        {DECISION_LABELS[rule.decision]}
+      </span>
+      <div className="flex shrink-0 items-center">{children}</div>
+    </li>
+  );
+}
+
+function StoredRuleControls({
+  isFirst,
+  isLast,
+  onMove,
+  onDelete,
+}: {
+  isFirst: boolean;
+  isLast: boolean;
+  onMove: (offset: -1 | 1) => void;
+  onDelete: () => void;
+}) {
+  return (
+    <>
+      <button
+        type="button"
+        className="cursor-pointer rounded p-1 text-gray-400 hover:bg-gray-200 hover:text-gray-700 disabled:invisible"
+        onClick={() => onMove(-1)}
+        disabled={isFirst}
+        title="Move up"
+      >
+        <ArrowUp className="size-3.5" />
+      </button>
+      <button
+        type="button"
+        className="cursor-pointer rounded p-1 text-gray-400 hover:bg-gray-200 hover:text-gray-700 disabled:invisible"
+        onClick={() => onMove(1)}
+        disabled={isLast}
+        title="Move down"
+      >
+        <ArrowDown className="size-3.5" />
+      </button>
+      <button
+        type="button"
+        className="cursor-pointer rounded p-1 text-gray-400 hover:bg-gray-200 hover:text-gray-700"
+        onClick={onDelete}
+        title="Remove rule"
+      >
+        <Trash2 className="size-3.5" />
+      </button>
+    </>
+  );
+}
+
+/**
+ * Header menu for the rules which answer interrupts without prompting, so
+ * that trusted actions don't need a review every time.
+ */
+export function InterruptPolicyManager() {
+  const { rules, addRule, deleteRule, moveRule } = useInterruptPolicies();
+  const [open, setOpen] = useState(false);
+  const [adding, setAdding] = useState(false);
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const close = (e: MouseEvent) => {
+      if (!ref.current?.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener("mousedown", close);
+    return () => document.removeEventListener("mousedown", close);
+  }, [open]);
+
+  return (
+    <div
+      ref={ref}
+      className="relative"
+    >
+      <TooltipIconButton
+        size="lg"
+        className={cn("p-4", open && "bg-gray-100")}
+        tooltip="Interrupt policies"
+        variant="ghost"
+        onClick={() => setOpen((o) => !o)}
+      >
+        <ShieldCheck className="size-5" />
+      </TooltipIconButton>
+      {open && (
+        <div className="absolute top-full right-0 z-50 mt-2 flex w-96 flex-col gap-3 rounded-md border bg-white p-3 shadow-lg">
+          <div className="flex flex-col gap-1">
+            <p className="text-sm font-semibold">Interrupt policies</p>
+            <p className="text-xs text-gray-500">
+              The first matching rule answers a request, unless a matching rule
+              says to always prompt. Arg patterns are regular expressions which
+              must match the whole value, so use <code>.*</code> to match part
+              of it. Rules apply to new interrupts.
+            </p>
+          </div>
+          <ul className="flex flex-col gap-1">
+            {BUILT_IN_INTERRUPT_POLICIES.map((rule) => (
+              <RuleRow
+                key={rule.id}
+                rule={rule}
+              >
+                <span
+                  className="p-1 text-gray-400"
+                  title="Built-in rule"
+                >
+                  <Lock className="size-3.5" />
+                </span>
+              </RuleRow>
+            ))}
+            {rules.map((rule, idx) => (
+              <RuleRow
+                key={rule.id}
+                rule={rule}
+              >
+                <StoredRuleControls
+                  isFirst={idx === 0}
+                  isLast={idx === rules.length - 1}
+                  onMove={(offset) => moveRule(rule.id, offset)}
+                  onDelete={() => deleteRule(rule.id)}
+                />
+              </RuleRow>
+            ))}
+          </ul>
+          <div className="border-t pt-3">
+            {adding ? (
+              <AddRuleForm
+                onSave={(values) => {
+                  addRule(values);
+                  setAdding(false);
+                }}
+              />
+            ) : (
+              <Button
+                size="sm"
+                variant="ghost"
+                className="w-full"
+                onClick={() => setAdding(true)}
+              >
+                <Plus className="size-4" />
+                Add rule
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,229 @@
+import { KeyboardEvent, useMemo, useState } from "react";
+import isEqual from "lodash/isEqual";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { diffLines } from "@/lib/line-diff";
+import { CodeEditor } from "../../code-editor";
+import { UnifiedDiff } from "../../code-diff";
+import { MarkdownText } from "../../markdown-text";
+import { formatArgValue, getArgEditorKind, prettifyText } from "../utils";
+
+interface ArgEditorProps {
+  name: string;
+  value: unknown;
+  /** The value in the action request, which decides the editor. */
+  originalValue: unknown;
+  disabled: boolean;
+  onChange: (value: unknown) => void;
+  /** Called with the error of a value that can't be parsed, or undefined. */
+  onErrorChange: (error: string | undefined) => void;
+  onKeyDown: (e: KeyboardEvent) => void;
+}
+
+function TextArgEditor({
+  value,
+  disabled,
+  onChange,
+  onKeyDown,
+}: Pick<ArgEditorProps, "disabled" | "onChange" | "onKeyDown"> & {
+  value: string;
+}) {
+  // Fit the initial value, up to 30 rows.
+  const [rows] = useState(() =>
+    value.length ? Math.min(Math.max(value.length / 30, 7), 30) : 3,
+  );
+  return (
+    <>
+      <Textarea
+        disabled={disabled}
+        className="h-full"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        onKeyDown={onKeyDown}
+        rows={rows}
+      />
+      {/* Markdown preview */}
+      <div className="mt-2 w-full">
+        <MarkdownText>{value}</MarkdownText>
+      </div>
+    </>
+  );
+}
+
+/**
+ * Edits the text of a value which has to be parsed, keeping invalid text
+ * around until it parses.
+ */
+function ParsedArgEditor({
+  value,
+  parse,
+  onChange,
+  onErrorChange,
+  children,
+}: Pick<ArgEditorProps, "value" | "onChange" | "onErrorChange"> & {
+  parse: (text: string) => unknown;
+  children: (props: {
+    text: string;
+    error: string | undefined;
+    setText: (text: string) => void;
+  }) => React.ReactNode;
+}) {
+  const [text, _setText] = useState(() => formatArgValue(value));
+  const [error, setError] = useState<string>();
+
+  const setText = (next: string) => {
+    _setText(next);
+    try {
+      const parsed = parse(next);
+      setError(undefined);
+      onErrorChange(undefined);
+      onChange(parsed);
+    } catch (e: any) {
+      const message = e?.message ?? "Invalid value";
+      setError(message);
+      onErrorChange(message);
+    }
+  };
+
+  return (
+    <>
+      {children({ text, error, setText })}
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </>
+  );
+}
+
+function parseNumber(text: string): number {
+  const value = Number(text);
+  if (!text.trim() || Number.isNaN(value)) {
+    throw new Error("Enter a number.");
+  }
+  return value;
+}
+
+/**
+ * Editor for one arg of an action request, picked by the type of its original
+ * value: numeric input, JSON editor with validation, code editor or text.
+ */
+export function ArgEditor({
+  name,
+  value,
+  originalValue,
+  disabled,
+  onChange,
+  onErrorChange,
+  onKeyDown,
+}: ArgEditorProps) {
+  const kind = getArgEditorKind(name, originalValue);
+
+  return (
+    <div className="flex h-full w-full flex-col items-start gap-1 px-[1px]">
+      <div className="flex w-full flex-col items-start gap-[6px]">
+        <p className="min-w-fit text-sm font-medium">{prettifyText(name)}</p>
+        {kind === "text" && (
+          <TextArgEditor
+            value={formatArgValue(value)}
+            disabled={disabled}
+            onChange={onChange}
+            onKeyDown={onKeyDown}
+          />
+        )}
+        {kind === "code" && (
+          <CodeEditor
+            language="julia"
+            value={formatArgValue(value)}
+            disabled={disabled}
+            onChange={onChange}
+            onKeyDown={onKeyDown}
+          />
+        )}
+        {kind === "json" && (
+          <ParsedArgEditor
+            value={value}
+            parse={(text) => JSON.parse(text)}
+            onChange={onChange}
+            onErrorChange={onErrorChange}
+          >
+            {({ text, error, setText }) => (
+              <CodeEditor
+                language="json"
+                value={text}
+                invalid={!!error}
+                disabled={disabled}
+                onChange={setText}
+                onKeyDown={onKeyDown}
+              />
+            )}
+          </ParsedArgEditor>
+        )}
+        {kind === "number" && (
+          <ParsedArgEditor
+            value={value}
+            parse={parseNumber}
+            onChange={onChange}
+            onErrorChange={onErrorChange}
+          >
+            {({ text, error, setText }) => (
+              <Input
+                type="number"
+                step="any"
+                value={text}
+                aria-invalid={!!error}
+                disabled={disabled}
+                onChange={(e) => setText(e.target.value)}
+                onKeyDown={onKeyDown}
+                className="max-w-xs"
+              />
+            )}
+          </ParsedArgEditor>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Diff of every edited arg against the original action request.
+ */
+export function ArgsDiffPreview({
+  originalArgs,
+  args,
+}: {
+  originalArgs: Record<string, unknown>;
+  args: Record<string, unknown>;
+}) {
+  const diffs = useMemo(
+    () =>
+      Object.keys(args)
+        .filter((key) => !isEqual(args[key], originalArgs[key]))
+        .map((key) => ({
+          key,
+          lines: diffLines(
+            formatArgValue(originalArgs[key]),
+            formatArgValue(args[key]),
+          ),
+        })),
+    [args, originalArgs],
+  );
+
+  if (diffs.length === 0) return null;
+
+  return (
+    <div className="flex w-full flex-col gap-2">
+      <p className="text-sm font-medium">Changes</p>
+      {diffs.map(({ key, lines }) => (
+        <div
+          key={key}
+          className="w-full overflow-hidden rounded-md border"
+        >
+          <p className="border-b bg-gray-50 px-3 py-1 font-mono text-xs">
+            {key}
+          </p>
+          <div className="max-h-64 overflow-auto bg-black py-2 text-zinc-100">
+            <UnifiedDiff lines={lines} />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -8,6 +8,7 @@ import { MarkdownText } from "../../markdown-text";
 import { ActionRequest, HumanInterrupt } from "@langchain/langgraph/prebuilt";
 import { toast } from "sonner";
 import { Separator } from "@/components/ui/separator";
+import { ArgEditor, ArgsDiffPreview } from "./arg-editors";
 
 function ResetButton({ handleReset }: { handleReset: () => void }) {
   return (
@@ -60,7 +61,6 @@ interface InboxItemInputProps {
   acceptAllowed: boolean;
   hasEdited: boolean;
   hasAddedResponse: boolean;
-  initialValues: Record<string, string>;
 
   streaming: boolean;
   streamFinished: boolean;
@@ -182,25 +182,25 @@ function AcceptComponent({
 function EditAndOrAcceptComponent({
   humanResponse,
   streaming,
-  initialValues,
   onEditChange,
   handleSubmit,
   interruptValue,
 }: {
   humanResponse: HumanResponseWithEdits[];
   streaming: boolean;
-  initialValues: Record<string, string>;
   interruptValue: HumanInterrupt;
   onEditChange: (
-    text: string | string[],
+    changes: Record<string, unknown>,
     response: HumanResponseWithEdits,
-    key: string | string[],
   ) => void;
   handleSubmit: (
     e: React.MouseEvent<HTMLButtonElement, MouseEvent> | React.KeyboardEvent,
   ) => Promise<void>;
 }) {
-  const defaultRows = React.useRef<Record<string, number>>({});
+  // Args whose text can't be parsed, with the error.
+  const [argErrors, setArgErrors] = React.useState<Record<string, string>>({});
+  // Bumped on reset, so the editors drop the text they keep.
+  const [resetCount, setResetCount] = React.useState(0);
   const editResponse = humanResponse.find((r) => r.type === "edit");
   const acceptResponse = humanResponse.find((r) => r.type === "accept");
   if (
@@ -224,6 +224,8 @@ function EditAndOrAcceptComponent({
   if (editResponse.acceptAllowed && !editResponse.editsMade) {
     buttonText = "Accept";
   }
+  const originalArgs = interruptValue.action_request.args;
+  const hasArgErrors = Object.keys(argErrors).length > 0;
 
   const handleReset = () => {
     if (
@@ -234,31 +236,38 @@ function EditAndOrAcceptComponent({
     ) {
       return;
     }
-    // use initialValues to reset the text areas
-    const keysToReset: string[] = [];
-    const valuesToReset: string[] = [];
-    Object.entries(initialValues).forEach(([k, v]) => {
-      if (k in (editResponse.args as Record<string, any>).args) {
-        const value = ["string", "number"].includes(typeof v)
-          ? v
-          : JSON.stringify(v, null);
-        keysToReset.push(k);
-        valuesToReset.push(value);
-      }
-    });
+    onEditChange(originalArgs, editResponse);
+    setArgErrors({});
+    setResetCount((c) => c + 1);
+  };
 
-    if (keysToReset.length > 0 && valuesToReset.length > 0) {
-      onEditChange(valuesToReset, editResponse, keysToReset);
+  const submitIfValid = (
+    e: React.MouseEvent<HTMLButtonElement, MouseEvent> | React.KeyboardEvent,
+  ) => {
+    if (hasArgErrors) {
+      e.preventDefault();
+      toast.error("Error", {
+        description: "Fix the invalid values before submitting.",
+        richColors: true,
+        closeButton: true,
+      });
+      return;
     }
+    handleSubmit(e);
   };
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if ((e.metaKey || e.ctrlKey) && e.key === "Enter") {
       e.preventDefault();
-      handleSubmit(e);
+      submitIfValid(e);
     }
   };
 
+  const setArgError = (key: string, error: string | undefined) =>
+    setArgErrors(({ [key]: _previous, ...rest }) =>
+      error ? { ...rest, [key]: error } : rest,
+    );
+
   return (
     <div className="flex w-full flex-col items-start gap-4 rounded-lg border-[1px] border-gray-300 p-6">
       <div className="flex w-full items-center justify-between">
@@ -266,70 +275,29 @@ function EditAndOrAcceptComponent({
         <ResetButton handleReset={handleReset} />
       </div>
 
-      {Object.entries(editResponse.args.args).map(([k, v], idx) => {
-        const value = ["string", "number"].includes(typeof v)
-          ? v
-          : JSON.stringify(v, null);
-        // Calculate the default number of rows by the total length of the initial value divided by 30
-        // or 8, whichever is greater. Stored in a ref to prevent re-rendering.
-        if (
-          defaultRows.current[k as keyof typeof defaultRows.current] ===
-          undefined
-        ) {
-          defaultRows.current[k as keyof typeof defaultRows.current] = !v.length
-            ? 3
-            : Math.max(v.length / 30, 7);
-        }
-        const numRows =
-          defaultRows.current[k as keyof typeof defaultRows.current] || 8;
-
-        // return (
-        //   <div
-        //     className="flex h-full w-full flex-col items-start gap-1 px-[1px]"
-        //     key={`allow-edit-args--${k}-${idx}`}
-        //   >
-        //     <div className="flex w-full flex-col items-start gap-[6px]">
-        //       <p className="min-w-fit text-sm font-medium">{prettifyText(k)}</p>
-        //       <Textarea
-        //         disabled={streaming}
-        //         className="h-full"
-        //         value={value}
-        //         onChange={(e) => onEditChange(e.target.value, editResponse, k)}
-        //         onKeyDown={handleKeyDown}
-        //         rows={numRows}
-        //       />
-        //     </div>
-        //   </div>
-        // );
-        return (
-          <div
-            className="flex h-full w-full flex-col items-start gap-1 px-[1px]"
-            key={`allow-edit-args--${k}-${idx}`}
-          >
-            <div className="flex w-full flex-col items-start gap-[6px]">
-              <p className="min-w-fit text-sm font-medium">{prettifyText(k)}</p>
-              <Textarea
-                disabled={streaming}
-                className="h-full"
-                value={value}
-                onChange={(e) => onEditChange(e.target.value, editResponse, k)}
-                onKeyDown={handleKeyDown}
-                rows={numRows}
-              />
-              {/* Markdown preview */}
-              <div className="w-full mt-2">
-                <MarkdownText>{value}</MarkdownText>
-              </div>
-            </div>
-          </div>
-        );
-      })}
+      {Object.entries(editResponse.args.args).map(([k, v]) => (
+        <ArgEditor
+          key={`allow-edit-args--${k}--${resetCount}`}
+          name={k}
+          value={v}
+          originalValue={originalArgs[k]}
+          disabled={streaming}
+          onChange={(value) => onEditChange({ [k]: value }, editResponse)}
+          onErrorChange={(error) => setArgError(k, error)}
+          onKeyDown={handleKeyDown}
+        />
+      ))}
+
+      <ArgsDiffPreview
+        originalArgs={originalArgs}
+        args={editResponse.args.args}
+      />
 
       <div className="flex w-full items-center justify-end gap-2">
         <Button
           variant="brand"
-          disabled={streaming}
-          onClick={handleSubmit}
+          disabled={streaming || hasArgErrors}
+          onClick={submitIfValid}
         >
           {buttonText}
         </Button>
@@ -348,7 +316,6 @@ export function InboxItemInput({
   acceptAllowed,
   hasEdited,
   hasAddedResponse,
-  initialValues,
   setHumanResponse,
   setSelectedSubmitType,
   setHasEdited,
@@ -364,40 +331,16 @@ export function InboxItemInput({
     hasArgs && !showArgsInResponse && !isEditAllowed && !acceptAllowed;
 
   const onEditChange = (
-    change: string | string[],
+    changes: Record<string, unknown>,
     response: HumanResponseWithEdits,
-    key: string | string[],
   ) => {
-    if (
-      (Array.isArray(change) && !Array.isArray(key)) ||
-      (!Array.isArray(change) && Array.isArray(key))
-    ) {
-      toast.error("Error", {
-        description: "Something went wrong",
-        richColors: true,
-        closeButton: true,
-      });
-      return;
-    }
-
     let valuesChanged = true;
     if (typeof response.args === "object") {
-      const updatedArgs = { ...(response.args?.args || {}) };
-
-      if (Array.isArray(change) && Array.isArray(key)) {
-        // Handle array inputs by mapping corresponding values
-        change.forEach((value, index) => {
-          if (index < key.length) {
-            updatedArgs[key[index]] = value;
-          }
-        });
-      } else {
-        // Handle single value case
-        updatedArgs[key as string] = change as string;
-      }
-
-      const haveValuesChanged = haveArgsChanged(updatedArgs, initialValues);
-      valuesChanged = haveValuesChanged;
+      const updatedArgs = { ...(response.args?.args || {}), ...changes };
+      valuesChanged = haveArgsChanged(
+        updatedArgs,
+        interruptValue.action_request.args,
+      );
     }
 
     if (!valuesChanged) {
@@ -426,16 +369,7 @@ export function InboxItemInput({
         type: response.type,
         args: {
           action: response.args.action,
-          args:
-            Array.isArray(change) && Array.isArray(key)
-              ? {
-                ...response.args.args,
-                ...Object.fromEntries(key.map((k, i) => [k, change[i]])),
-              }
-              : {
-                ...response.args.args,
-                [key as string]: change as string,
-              },
+          args: { ...response.args.args, ...changes },
         },
       };
       if (
@@ -524,7 +458,6 @@ export function InboxItemInput({
         <EditAndOrAccept
           humanResponse={humanResponse}
           streaming={streaming}
-          initialValues={initialValues}
           interruptValue={interruptValue}
           onEditChange={onEditChange}
           handleSubmit={handleSubmit}
@@ -1,15 +1,27 @@
 import { Button } from "@/components/ui/button";
 import { ThreadIdCopyable } from "./thread-id";
 import { InboxItemInput } from "./inbox-item-input";
-import useInterruptedActions from "../hooks/use-interrupted-actions";
+import useInterruptedActions, {
+  InterruptedActionItem,
+} from "../hooks/use-interrupted-actions";
 import { cn } from "@/lib/utils";
 import { toast } from "sonner";
 import { useQueryState } from "nuqs";
 import { constructOpenInStudioURL } from "../utils";
-import { HumanInterrupt } from "@langchain/langgraph/prebuilt";
+import type { Command } from "@langchain/langgraph-sdk";
+import { Check } from "lucide-react";
+import type { HumanInterruptEntry } from "@/lib/agent-inbox-interrupt";
+import { formatInterruptPolicyRule } from "@/lib/interrupt-policies";
 
 interface ThreadActionsViewProps {
-  interrupt: HumanInterrupt;
+  interrupts: HumanInterruptEntry[];
+  /** The interrupted thread. Defaults to the thread that is currently open. */
+  threadId?: string;
+  /** The last message of the interrupted thread. */
+  messageId?: string;
+  /** Identifies the state the thread was interrupted in. */
+  interruptedAt?: string;
+  submitCommand?: (command: Command) => Promise<void>;
   handleShowSidePanel: (showState: boolean, showDescription: boolean) => void;
   showState: boolean;
   showDescription: boolean;
@@ -54,32 +66,120 @@ function ButtonGroup({
   );
 }
 
+const DECISION_LABELS: Record<string, string> = {
+  accept: "Accepted",
+  edit: "Edited",
+  response: "Responded",
+  ignore: "Ignored",
+};
+
+/**
+ * The controls for answering one request. Once a request of a batch has been
+ * answered, only the decision is shown.
+ */
+function InterruptItemActions({
+  item,
+  title,
+  streaming,
+  streamFinished,
+  actionsDisabled,
+}: {
+  item: InterruptedActionItem;
+  title?: string;
+  streaming: boolean;
+  streamFinished: boolean;
+  actionsDisabled: boolean;
+}) {
+  const { request } = item.entry;
+
+  if (item.decision) {
+    return (
+      <div className="flex w-full items-center justify-between gap-3 rounded-lg border border-gray-300 bg-white px-6 py-4">
+        <div className="flex items-center gap-2">
+          <Check className="h-4 w-4 text-green-600" />
+          <p className="font-medium">{title}</p>
+          <span className="text-sm text-gray-500">
+            {DECISION_LABELS[item.decision.type]}
+            {item.autoDecidedBy &&
+              ` by rule ${formatInterruptPolicyRule(item.autoDecidedBy)}`}
+          </span>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          className="bg-white"
+          onClick={item.clearDecision}
+          disabled={actionsDisabled}
+        >
+          Change
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex w-full flex-col gap-4">
+      {(title || request.config.allow_ignore) && (
+        <div className="flex w-full flex-row items-center justify-start gap-2">
+          {title && <p className="text-lg font-medium">{title}</p>}
+          {request.config.allow_ignore && (
+            <Button
+              variant="outline"
+              className="border-gray-500 bg-white font-normal text-gray-800"
+              onClick={item.handleIgnore}
+              disabled={actionsDisabled}
+            >
+              Ignore
+            </Button>
+          )}
+        </div>
+      )}
+
+      <InboxItemInput
+        acceptAllowed={item.acceptAllowed}
+        hasEdited={item.hasEdited}
+        hasAddedResponse={item.hasAddedResponse}
+        interruptValue={request}
+        humanResponse={item.humanResponse}
+        setHumanResponse={item.setHumanResponse}
+        streaming={streaming}
+        streamFinished={streamFinished}
+        supportsMultipleMethods={item.supportsMultipleMethods}
+        setSelectedSubmitType={item.setSelectedSubmitType}
+        setHasAddedResponse={item.setHasAddedResponse}
+        setHasEdited={item.setHasEdited}
+        handleSubmit={item.handleSubmit}
+      />
+    </div>
+  );
+}
+
 export function ThreadActionsView({
-  interrupt,
+  interrupts,
+  threadId: interruptedThreadId,
+  messageId,
+  interruptedAt,
+  submitCommand,
   handleShowSidePanel,
   showDescription,
   showState,
 }: ThreadActionsViewProps) {
-  const [threadId] = useQueryState("threadId");
+  const [currentThreadId] = useQueryState("threadId");
+  const threadId = interruptedThreadId ?? currentThreadId;
   const {
-    acceptAllowed,
-    hasEdited,
-    hasAddedResponse,
+    items,
     streaming,
-    supportsMultipleMethods,
     streamFinished,
     loading,
-    handleSubmit,
-    handleIgnore,
-    handleResolve,
-    setSelectedSubmitType,
-    setHasAddedResponse,
-    setHasEdited,
-    humanResponse,
-    setHumanResponse,
-    initialHumanInterruptEditValue,
+    allDecided,
+    handleSubmitAll,
+    handleResolve: _handleResolve,
   } = useInterruptedActions({
-    interrupt,
+    interrupts,
+    submitCommand,
+    threadId,
+    messageId,
+    interruptedAt,
   });
   const [apiUrl] = useQueryState("apiUrl");
 
@@ -98,9 +198,11 @@ export function ThreadActionsView({
     window.open(studioUrl, "_blank");
   };
 
-  const threadTitle = interrupt.action_request.action || "Unknown";
+  const isBatch = interrupts.length > 1;
+  const threadTitle = isBatch
+    ? `${interrupts.length} requests awaiting review`
+    : interrupts[0]?.request.action_request.action || "Unknown";
   const actionsDisabled = loading || streaming;
-  const ignoreAllowed = interrupt.config.allow_ignore;
 
   return (
     <div className="flex min-h-full w-full flex-col gap-9">
@@ -130,44 +232,51 @@ export function ThreadActionsView({
         </div>
       </div>
 
-      <div className="flex w-full flex-row items-center justify-start gap-2">
-        {/* <Button
-          variant="outline"
-          className="border-gray-500 bg-white font-normal text-gray-800"
-          onClick={handleResolve}
-          disabled={actionsDisabled}
-        >
-          Mark as Resolved
-        </Button> */}
-        {ignoreAllowed && (
+      {/* <Button
+        variant="outline"
+        className="border-gray-500 bg-white font-normal text-gray-800"
+        onClick={handleResolve}
+        disabled={actionsDisabled}
+      >
+        Mark as Resolved
+      </Button> */}
+
+      {/* Actions */}
+      {items.map((item, idx) => (
+        <InterruptItemActions
+          key={idx}
+          item={item}
+          title={
+            isBatch
+              ? item.entry.request.action_request.action || "Unknown"
+              : undefined
+          }
+          streaming={streaming}
+          streamFinished={streamFinished}
+          actionsDisabled={actionsDisabled}
+        />
+      ))}
+
+      {isBatch && (
+        <div className="flex w-full items-center justify-end gap-3">
+          <p className="text-sm text-gray-500">
+            {items.filter((item) => item.decision).length} of{" "}
+            {interrupts.length} answered
+          </p>
           <Button
-            variant="outline"
-            className="border-gray-500 bg-white font-normal text-gray-800"
-            onClick={handleIgnore}
-            disabled={actionsDisabled}
+            variant="brand"
+            onClick={handleSubmitAll}
+            disabled={!allDecided || actionsDisabled}
           >
-            Ignore
+            Submit all
           </Button>
-        )}
-      </div>
-
-      {/* Actions */}
-      <InboxItemInput
-        acceptAllowed={acceptAllowed}
-        hasEdited={hasEdited}
-        hasAddedResponse={hasAddedResponse}
-        interruptValue={interrupt}
-        humanResponse={humanResponse}
-        initialValues={initialHumanInterruptEditValue.current}
-        setHumanResponse={setHumanResponse}
-        streaming={streaming}
-        streamFinished={streamFinished}
-        supportsMultipleMethods={supportsMultipleMethods}
-        setSelectedSubmitType={setSelectedSubmitType}
-        setHasAddedResponse={setHasAddedResponse}
-        setHasEdited={setHasEdited}
-        handleSubmit={handleSubmit}
-      />
+        </div>
+      )}
+      {isBatch && streamFinished && (
+        <p className="text-base font-medium text-green-600">
+          Successfully finished Graph invocation.
+        </p>
+      )}
     </div>
   );
 }
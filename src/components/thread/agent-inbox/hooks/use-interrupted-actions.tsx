@@ -3,29 +3,94 @@ import {
   KeyboardEvent,
   Dispatch,
   SetStateAction,
-  MutableRefObject,
   useState,
-  useRef,
   useEffect,
+  useRef,
 } from "react";
-import { createDefaultHumanResponse } from "../utils";
+import { createDefaultHumanResponse, getSelectedHumanResponse } from "../utils";
 import { toast } from "sonner";
-import { HumanInterrupt, HumanResponse } from "@langchain/langgraph/prebuilt";
+import { HumanResponse } from "@langchain/langgraph/prebuilt";
 import { END } from "@langchain/langgraph/web";
+import type { Command } from "@langchain/langgraph-sdk";
+import {
+  buildResumePayload,
+  HumanInterruptEntry,
+} from "@/lib/agent-inbox-interrupt";
+import {
+  AutoDecisionLogEntry,
+  createAutoDecisionLogEntry,
+  getInterruptPolicy,
+  InterruptPolicyRule,
+} from "@/lib/interrupt-policies";
+import { useInterruptPolicies } from "@/hooks/use-interrupt-policies";
 import { useStreamContext } from "@/providers/Stream";
 
 interface UseInterruptedActionsInput {
-  interrupt: HumanInterrupt;
+  /** Every request the run is waiting on. Should be memoized. */
+  interrupts: HumanInterruptEntry[];
+  /**
+   * Sends the command which resumes the interrupted run. Defaults to
+   * submitting it to the thread that is currently open.
+   */
+  submitCommand?: (command: Command) => Promise<void>;
+  /** The interrupted thread, whose log records the automatic decisions. */
+  threadId?: string | null;
+  /** The last message of the interrupted thread. */
+  messageId?: string;
+  /**
+   * Identifies the state the thread was interrupted in, such as the ID of its
+   * checkpoint, so that a request repeated later is answered again.
+   */
+  interruptedAt?: string;
 }
 
-interface UseInterruptedActionsValue {
-  // Actions
+interface InterruptResponseState {
+  humanResponse: HumanResponseWithEdits[];
+  selectedSubmitType: SubmitType | undefined;
+  // Whether or not the user has edited any fields which allow editing.
+  hasEdited: boolean;
+  // Whether or not the user has added a response.
+  hasAddedResponse: boolean;
+  acceptAllowed: boolean;
+  /**
+   * The response chosen for the request. Only used when several requests are
+   * answered together.
+   */
+  decision?: HumanResponse;
+  /** The interrupt policy which took the decision, if any. */
+  autoDecidedBy?: InterruptPolicyRule;
+}
+
+export interface InterruptedActionItem
+  extends Omit<InterruptResponseState, "selectedSubmitType"> {
+  entry: HumanInterruptEntry;
+  supportsMultipleMethods: boolean;
+
+  // Actions. With a single request these resume the run, otherwise they
+  // record the decision for this request.
   handleSubmit: (
     e: React.MouseEvent<HTMLButtonElement, MouseEvent> | KeyboardEvent,
   ) => Promise<void>;
   handleIgnore: (
     e: React.MouseEvent<HTMLButtonElement, MouseEvent>,
   ) => Promise<void>;
+  clearDecision: () => void;
+
+  // State setters
+  setSelectedSubmitType: Dispatch<SetStateAction<SubmitType | undefined>>;
+  setHumanResponse: Dispatch<SetStateAction<HumanResponseWithEdits[]>>;
+  setHasAddedResponse: Dispatch<SetStateAction<boolean>>;
+  setHasEdited: Dispatch<SetStateAction<boolean>>;
+}
+
+interface UseInterruptedActionsValue {
+  items: InterruptedActionItem[];
+
+  // Actions
+  /** Resumes the run with the decisions made for every request. */
+  handleSubmitAll: (
+    e: React.MouseEvent<HTMLButtonElement, MouseEvent>,
+  ) => Promise<void>;
   handleResolve: (
     e: React.MouseEvent<HTMLButtonElement, MouseEvent>,
   ) => Promise<void>;
@@ -34,123 +99,237 @@ interface UseInterruptedActionsValue {
   streaming: boolean;
   streamFinished: boolean;
   loading: boolean;
-  supportsMultipleMethods: boolean;
-  hasEdited: boolean;
-  hasAddedResponse: boolean;
-  acceptAllowed: boolean;
-  humanResponse: HumanResponseWithEdits[];
+  allDecided: boolean;
+}
 
-  // State setters
-  setSelectedSubmitType: Dispatch<SetStateAction<SubmitType | undefined>>;
-  setHumanResponse: Dispatch<SetStateAction<HumanResponseWithEdits[]>>;
-  setHasAddedResponse: Dispatch<SetStateAction<boolean>>;
-  setHasEdited: Dispatch<SetStateAction<boolean>>;
+function createResponseState(
+  entry: HumanInterruptEntry,
+): InterruptResponseState {
+  const initialValues = { current: {} as Record<string, string> };
+  try {
+    const { responses, defaultSubmitType, hasAccept } =
+      createDefaultHumanResponse(entry.request, initialValues);
+    return {
+      humanResponse: responses,
+      selectedSubmitType: defaultSubmitType,
+      hasEdited: false,
+      hasAddedResponse: false,
+      acceptAllowed: hasAccept,
+    };
+  } catch (e) {
+    console.error("Error formatting and setting human response state", e);
+    return {
+      humanResponse: [],
+      selectedSubmitType: undefined,
+      hasEdited: false,
+      hasAddedResponse: false,
+      acceptAllowed: false,
+    };
+  }
+}
 
-  // Refs
-  initialHumanInterruptEditValue: MutableRefObject<Record<string, string>>;
+/**
+ * Answers the request with its matching interrupt policy, if any.
+ */
+function applyInterruptPolicy(
+  state: InterruptResponseState,
+  entry: HumanInterruptEntry,
+  rules: InterruptPolicyRule[],
+): InterruptResponseState {
+  const rule = getInterruptPolicy(rules, entry.request);
+  const decision =
+    rule?.decision === "accept"
+      ? getSelectedHumanResponse(state.humanResponse, "accept")
+      : rule?.decision === "ignore"
+        ? ({ type: "ignore", args: null } as HumanResponse)
+        : undefined;
+  return decision ? { ...state, decision, autoDecidedBy: rule } : state;
+}
+
+/**
+ * The interrupts last resumed automatically in each thread. They are tracked
+ * outside the component because the interrupt view unmounts while the run
+ * streams. If that run fails or is stopped, the same interrupt shows up
+ * again in the same state and is left for the user to answer.
+ */
+const autoSubmittedInterrupts = new Map<string, string>();
+
+function getInterruptsKey(
+  interrupts: HumanInterruptEntry[],
+  interruptedAt: string | undefined,
+): string {
+  const ids = interrupts.map((entry) => entry.interruptId);
+  const key = ids.every(Boolean)
+    ? ids.join(",")
+    : JSON.stringify(interrupts.map((entry) => entry.request));
+  return `${interruptedAt ?? ""}:${key}`;
+}
+
+function resolveAction<T>(action: SetStateAction<T>, prev: T): T {
+  return typeof action === "function"
+    ? (action as (prev: T) => T)(prev)
+    : action;
 }
 
 export default function useInterruptedActions({
-  interrupt,
+  interrupts,
+  submitCommand,
+  threadId,
+  messageId,
+  interruptedAt,
 }: UseInterruptedActionsInput): UseInterruptedActionsValue {
   const thread = useStreamContext();
-  const [humanResponse, setHumanResponse] = useState<HumanResponseWithEdits[]>(
-    [],
-  );
+  const { rules } = useInterruptPolicies();
+  const [states, setStates] = useState<InterruptResponseState[]>([]);
   const [loading, setLoading] = useState(false);
   const [streaming, setStreaming] = useState(false);
   const [streamFinished, setStreamFinished] = useState(false);
-  const initialHumanInterruptEditValue = useRef<Record<string, string>>({});
-  const [selectedSubmitType, setSelectedSubmitType] = useState<SubmitType>();
-  // Whether or not the user has edited any fields which allow editing.
-  const [hasEdited, setHasEdited] = useState(false);
-  // Whether or not the user has added a response.
-  const [hasAddedResponse, setHasAddedResponse] = useState(false);
-  const [acceptAllowed, setAcceptAllowed] = useState(false);
 
-  useEffect(() => {
-    try {
-      const { responses, defaultSubmitType, hasAccept } =
-        createDefaultHumanResponse(interrupt, initialHumanInterruptEditValue);
-      setSelectedSubmitType(defaultSubmitType);
-      setHumanResponse(responses);
-      setAcceptAllowed(hasAccept);
-    } catch (e) {
-      console.error("Error formatting and setting human response state", e);
+  const updateState = (
+    idx: number,
+    update: (prev: InterruptResponseState) => InterruptResponseState,
+  ) => setStates((prev) => prev.map((s, i) => (i === idx ? update(s) : s)));
+
+  const sendCommand = async (command: Command) => {
+    if (submitCommand) {
+      await submitCommand(command);
+    } else {
+      thread.submit({}, { command });
     }
-  }, [interrupt]);
+  };
 
-  const resumeRun = (response: HumanResponse[]): boolean => {
+  const resumeRun = async (responses: HumanResponse[]): Promise<boolean> => {
     try {
-      thread.submit(
-        {},
-        {
-          command: {
-            resume: response,
-          },
-        },
-      );
+      await sendCommand({
+        resume: buildResumePayload(interrupts, responses),
+      });
       return true;
     } catch (e: any) {
       console.error("Error sending human response", e);
+
+      if (e?.message?.includes("Invalid assistant ID")) {
+        toast("Error: Invalid assistant ID", {
+          description:
+            "The provided assistant ID was not found in this graph. Please update the assistant ID in the settings and try again.",
+          richColors: true,
+          closeButton: true,
+          duration: 5000,
+        });
+      } else {
+        toast.error("Error", {
+          description: "Failed to submit response.",
+          richColors: true,
+          closeButton: true,
+          duration: 5000,
+        });
+      }
       return false;
     }
   };
 
-  const handleSubmit = async (
-    e: React.MouseEvent<HTMLButtonElement, MouseEvent> | KeyboardEvent,
-  ) => {
-    e.preventDefault();
-    if (!humanResponse) {
-      toast.error("Error", {
-        description: "Please enter a response.",
-        duration: 5000,
-        richColors: true,
-        closeButton: true,
-      });
-      return;
+  /**
+   * Records the decisions taken by interrupt policies in the thread's log.
+   */
+  const logAutoDecisions = (decided: InterruptResponseState[]) => {
+    if (!threadId) return;
+    const entries: AutoDecisionLogEntry[] = decided.flatMap((s, idx) =>
+      s.autoDecidedBy
+        ? createAutoDecisionLogEntry(
+            s.autoDecidedBy,
+            interrupts[idx].request,
+            messageId,
+          )
+        : [],
+    );
+    thread.logAutoDecisions(threadId, entries);
+  };
+
+  /**
+   * Resumes the run with a response per request, given as the state of each.
+   */
+  const submitResponses = async (decided: InterruptResponseState[]) => {
+    const responses = decided.map((s) => s.decision!);
+    setStreamFinished(false);
+    setLoading(true);
+    setStreaming(true);
+
+    const resumedSuccessfully = await resumeRun(responses);
+    if (resumedSuccessfully) {
+      logAutoDecisions(decided);
+      const ignoredAll = responses.every((r) => r.type === "ignore");
+      if (decided.every((s) => s.autoDecidedBy)) {
+        toast("Answered by interrupt policies", {
+          description: interrupts
+            .map((entry) => entry.request.action_request.action)
+            .join(", "),
+          duration: 5000,
+        });
+      } else {
+        toast(ignoredAll ? "Successfully ignored thread" : "Success", {
+          description: ignoredAll
+            ? undefined
+            : "Response submitted successfully.",
+          duration: 5000,
+        });
+      }
     }
 
-    let errorOccurred = false;
-    initialHumanInterruptEditValue.current = {};
-
-    if (
-      humanResponse.some((r) => ["response", "edit", "accept"].includes(r.type))
-    ) {
-      setStreamFinished(false);
-
-      try {
-        const humanResponseInput: HumanResponse[] = humanResponse.flatMap(
-          (r) => {
-            if (r.type === "edit") {
-              if (r.acceptAllowed && !r.editsMade) {
-                return {
-                  type: "accept",
-                  args: r.args,
-                };
-              } else {
-                return {
-                  type: "edit",
-                  args: r.args,
-                };
-              }
-            }
-
-            if (r.type === "response" && !r.args) {
-              // If response was allowed but no response was given, do not include in the response
-              return [];
-            }
-            return {
-              type: r.type,
-              args: r.args,
-            };
-          },
-        );
+    setStreaming(false);
+    setStreamFinished(resumedSuccessfully);
+    setLoading(false);
+  };
+
+  const submitResponsesRef = useRef(submitResponses);
+  submitResponsesRef.current = submitResponses;
 
-        const input = humanResponseInput.find(
-          (r) => r.type === selectedSubmitType,
+  useEffect(() => {
+    // Interrupts which were already resumed automatically are answered by the
+    // user from then on.
+    const key = getInterruptsKey(interrupts, interruptedAt);
+    const autoSubmitted = autoSubmittedInterrupts.get(threadId ?? "") === key;
+    const next = interrupts.map((entry) => {
+      const state = createResponseState(entry);
+      return autoSubmitted ? state : applyInterruptPolicy(state, entry, rules);
+    });
+    setStates(next);
+
+    // Requests which are all answered by policies are resumed right away.
+    if (next.length > 0 && next.every((s) => s.autoDecidedBy)) {
+      autoSubmittedInterrupts.set(threadId ?? "", key);
+      submitResponsesRef.current(next);
+    }
+  }, [interrupts, rules, threadId, interruptedAt]);
+
+  /**
+   * Answers a single request: resumes the run right away when it is the only
+   * one, and otherwise records the answer until every request has one.
+   */
+  const decide = async (idx: number, response: HumanResponse) => {
+    if (interrupts.length === 1) {
+      await submitResponses([{ ...states[idx], decision: response }]);
+    } else {
+      updateState(idx, (s) => ({ ...s, decision: response }));
+    }
+  };
+
+  const items: InterruptedActionItem[] = states
+    .slice(0, interrupts.length)
+    .map(({ selectedSubmitType, ...state }, idx) => ({
+      ...state,
+      entry: interrupts[idx],
+      supportsMultipleMethods:
+        state.humanResponse.filter(
+          (r) =>
+            r.type === "edit" || r.type === "accept" || r.type === "response",
+        ).length > 1,
+
+      handleSubmit: async (e) => {
+        e.preventDefault();
+        const response = getSelectedHumanResponse(
+          state.humanResponse,
+          selectedSubmitType,
         );
-        if (!input) {
+        if (!response) {
           toast.error("Error", {
             description: "No response found.",
             richColors: true,
@@ -159,89 +338,65 @@ export default function useInterruptedActions({
           });
           return;
         }
-
-        setLoading(true);
-        setStreaming(true);
-        const resumedSuccessfully = resumeRun([input]);
-        if (!resumedSuccessfully) {
-          // This will only be undefined if the graph ID is not found
-          // in this case, the method will trigger a toast for us.
-          return;
-        }
-
-        toast("Success", {
-          description: "Response submitted successfully.",
-          duration: 5000,
-        });
-
-        if (!errorOccurred) {
-          setStreamFinished(true);
-        }
-      } catch (e: any) {
-        console.error("Error sending human response", e);
-
-        if ("message" in e && e.message.includes("Invalid assistant ID")) {
-          toast("Error: Invalid assistant ID", {
-            description:
-              "The provided assistant ID was not found in this graph. Please update the assistant ID in the settings and try again.",
-            richColors: true,
-            closeButton: true,
-            duration: 5000,
-          });
-        } else {
+        await decide(idx, response);
+      },
+      handleIgnore: async (e) => {
+        e.preventDefault();
+        if (!state.humanResponse.some((r) => r.type === "ignore")) {
           toast.error("Error", {
-            description: "Failed to submit response.",
-            richColors: true,
-            closeButton: true,
+            description: "The selected thread does not support ignoring.",
             duration: 5000,
           });
+          return;
         }
-
-        errorOccurred = true;
-        setStreaming(false);
-        setStreamFinished(false);
-      }
-
-      if (!errorOccurred) {
-        setStreaming(false);
-        setStreamFinished(false);
-      }
-    } else {
-      setLoading(true);
-      resumeRun(humanResponse);
-
-      toast("Success", {
-        description: "Response submitted successfully.",
-        duration: 5000,
-      });
-    }
-
-    setLoading(false);
-  };
-
-  const handleIgnore = async (
+        await decide(idx, { type: "ignore", args: null });
+      },
+      clearDecision: () =>
+        updateState(idx, (s) => ({
+          ...s,
+          decision: undefined,
+          autoDecidedBy: undefined,
+        })),
+
+      setSelectedSubmitType: (action) =>
+        updateState(idx, (s) => ({
+          ...s,
+          selectedSubmitType: resolveAction(action, s.selectedSubmitType),
+        })),
+      setHumanResponse: (action) =>
+        updateState(idx, (s) => ({
+          ...s,
+          humanResponse: resolveAction(action, s.humanResponse),
+        })),
+      setHasAddedResponse: (action) =>
+        updateState(idx, (s) => ({
+          ...s,
+          hasAddedResponse: resolveAction(action, s.hasAddedResponse),
+        })),
+      setHasEdited: (action) =>
+        updateState(idx, (s) => ({
+          ...s,
+          hasEdited: resolveAction(action, s.hasEdited),
+        })),
+    }));
+
+  const allDecided =
+    items.length === interrupts.length && items.every((item) => item.decision);
+
+  const handleSubmitAll = async (
     e: React.MouseEvent<HTMLButtonElement, MouseEvent>,
   ) => {
     e.preventDefault();
-
-    const ignoreResponse = humanResponse.find((r) => r.type === "ignore");
-    if (!ignoreResponse) {
+    if (!allDecided) {
       toast.error("Error", {
-        description: "The selected thread does not support ignoring.",
+        description: "Please answer every request before submitting.",
+        richColors: true,
+        closeButton: true,
         duration: 5000,
       });
       return;
     }
-
-    setLoading(true);
-    initialHumanInterruptEditValue.current = {};
-
-    resumeRun([ignoreResponse]);
-
-    setLoading(false);
-    toast("Successfully ignored thread", {
-      duration: 5000,
-    });
+    await submitResponses(states.slice(0, interrupts.length));
   };
 
   const handleResolve = async (
@@ -250,17 +405,9 @@ export default function useInterruptedActions({
     e.preventDefault();
 
     setLoading(true);
-    initialHumanInterruptEditValue.current = {};
 
     try {
-      thread.submit(
-        {},
-        {
-          command: {
-            goto: END,
-          },
-        },
-      );
+      await sendCommand({ goto: END });
 
       toast("Success", {
         description: "Marked thread as resolved.",
@@ -279,27 +426,13 @@ export default function useInterruptedActions({
     setLoading(false);
   };
 
-  const supportsMultipleMethods =
-    humanResponse.filter(
-      (r) => r.type === "edit" || r.type === "accept" || r.type === "response",
-    ).length > 1;
-
   return {
-    handleSubmit,
-    handleIgnore,
+    items,
+    handleSubmitAll,
     handleResolve,
-    humanResponse,
     streaming,
     streamFinished,
     loading,
-    supportsMultipleMethods,
-    hasEdited,
-    hasAddedResponse,
-    acceptAllowed,
-    setSelectedSubmitType,
-    setHumanResponse,
-    setHasAddedResponse,
-    setHasEdited,
-    initialHumanInterruptEditValue,
+    allDecided,
   };
 }
@@ -1,16 +1,45 @@
 import { StateView } from "./components/state-view";
 import { ThreadActionsView } from "./components/thread-actions-view";
 import { useState } from "react";
-import { HumanInterrupt } from "@langchain/langgraph/prebuilt";
+import type { Command } from "@langchain/langgraph-sdk";
+import type { HumanInterruptEntry } from "@/lib/agent-inbox-interrupt";
 import { useStreamContext } from "@/providers/Stream";
 
 interface ThreadViewProps {
-  interrupt: HumanInterrupt | HumanInterrupt[];
+  /** Every request the run is waiting on. Should be memoized. */
+  interrupts: HumanInterruptEntry[];
+  /**
+   * The interrupted thread, its state and how to resume it. Default to the
+   * thread that is currently open.
+   */
+  threadId?: string;
+  values?: Record<string, any>;
+  /**
+   * Identifies the state the thread was interrupted in, such as the ID of its
+   * checkpoint. Defaults to the latest checkpoint of the open thread.
+   */
+  interruptedAt?: string;
+  submitCommand?: (command: Command) => Promise<void>;
 }
 
-export function ThreadView({ interrupt }: ThreadViewProps) {
-  const interruptObj = Array.isArray(interrupt) ? interrupt[0] : interrupt;
+export function ThreadView({
+  interrupts,
+  threadId,
+  values,
+  interruptedAt,
+  submitCommand,
+}: ThreadViewProps) {
+  const description =
+    interrupts
+      .map((entry) => entry.request.description)
+      .filter(Boolean)
+      .join("\n\n---\n\n") || undefined;
   const thread = useStreamContext();
+  const threadValues = values ?? thread.values;
+  const threadInterruptedAt =
+    interruptedAt ??
+    thread.history.at(-1)?.checkpoint.checkpoint_id ??
+    undefined;
   const [showDescription, setShowDescription] = useState(false);
   const [showState, setShowState] = useState(false);
   const showSidePanel = showDescription || showState;
@@ -40,13 +69,17 @@ export function ThreadView({ interrupt }: ThreadViewProps) {
       {showSidePanel ? (
         <StateView
           handleShowSidePanel={handleShowSidePanel}
-          description={interruptObj.description}
-          values={thread.values}
+          description={description}
+          values={threadValues}
           view={showState ? "state" : "description"}
         />
       ) : (
         <ThreadActionsView
-          interrupt={interruptObj}
+          interrupts={interrupts}
+          threadId={threadId}
+          messageId={threadValues?.messages?.at(-1)?.id}
+          interruptedAt={threadInterruptedAt}
+          submitCommand={submitCommand}
           handleShowSidePanel={handleShowSidePanel}
           showState={showState}
           showDescription={showDescription}
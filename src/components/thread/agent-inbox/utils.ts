@@ -1,8 +1,9 @@
 import { BaseMessage, isBaseMessage } from "@langchain/core/messages";
 import { format } from "date-fns";
 import { startCase } from "lodash";
+import isEqual from "lodash/isEqual";
 import { HumanResponseWithEdits, SubmitType } from "./types";
-import { HumanInterrupt } from "@langchain/langgraph/prebuilt";
+import { HumanInterrupt, HumanResponse } from "@langchain/langgraph/prebuilt";
 
 export function prettifyText(action: string) {
   // return startCase(action.replace(/_/g, " "));
@@ -188,6 +189,36 @@ export function createDefaultHumanResponse(
   return { responses, defaultSubmitType, hasAccept: !!hasAccept };
 }
 
+/**
+ * Picks the response of the selected submit type. An edit without changes is
+ * sent as an accept, and an empty response is never sent. When the interrupt
+ * only allows ignoring, that is the response.
+ */
+export function getSelectedHumanResponse(
+  humanResponse: HumanResponseWithEdits[],
+  selectedSubmitType: SubmitType | undefined,
+): HumanResponse | undefined {
+  if (
+    !humanResponse.some((r) => ["response", "edit", "accept"].includes(r.type))
+  ) {
+    return humanResponse.some((r) => r.type === "ignore")
+      ? { type: "ignore", args: null }
+      : undefined;
+  }
+
+  const candidates: HumanResponse[] = humanResponse.flatMap((r) => {
+    if (r.type === "edit") {
+      return {
+        type: r.acceptAllowed && !r.editsMade ? "accept" : "edit",
+        args: r.args,
+      } as HumanResponse;
+    }
+    if (r.type === "response" && !r.args) return [];
+    return { type: r.type, args: r.args } as HumanResponse;
+  });
+  return candidates.find((r) => r.type === selectedSubmitType);
+}
+
 export function constructOpenInStudioURL(
   deploymentUrl: string,
   threadId?: string,
@@ -205,20 +236,43 @@ export function constructOpenInStudioURL(
   return smithStudioURL.toString();
 }
 
+/**
+ * Whether the edited args differ from the args of the action request.
+ */
 export function haveArgsChanged(
-  args: unknown,
-  initialValues: Record<string, string>,
+  args: Record<string, unknown>,
+  originalArgs: Record<string, unknown>,
 ): boolean {
-  if (typeof args !== "object" || !args) {
-    return false;
-  }
+  return !isEqual(args, originalArgs);
+}
 
-  const currentValues = args as Record<string, string>;
+export type ArgEditorKind = "text" | "code" | "json" | "number";
 
-  return Object.entries(currentValues).some(([key, value]) => {
-    const valueString = ["string", "number"].includes(typeof value)
-      ? value.toString()
-      : JSON.stringify(value, null);
-    return initialValues[key] !== valueString;
-  });
+const CODE_ARG_NAME = /(^|_)(code|script|source|program|snippet)s?$/i;
+const JULIA_CODE_LINE =
+  /^\s*(using|import|function|module|include|struct)\b|^\s*end\s*$/m;
+
+/**
+ * Picks the editor for an action request arg from its original value. Strings
+ * are edited as code when the arg is named like code or contains Julia code.
+ */
+export function getArgEditorKind(key: string, value: unknown): ArgEditorKind {
+  if (typeof value === "number") return "number";
+  if (typeof value !== "string") return "json";
+  if (
+    CODE_ARG_NAME.test(key) ||
+    (value.includes("\n") && JULIA_CODE_LINE.test(value))
+  ) {
+    return "code";
+  }
+  return "text";
+}
+
+/**
+ * The text shown for an arg in editors and diffs.
+ */
+export function formatArgValue(value: unknown): string {
+  if (value === undefined) return "";
+  if (typeof value === "string") return value;
+  return JSON.stringify(value, null, 2);
 }
@@ -0,0 +1,185 @@
+import { useMemo, useState } from "react";
+import { Columns2, GitBranch } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useStreamContext } from "@/providers/Stream";
+import { useArtifact } from "../artifact";
+import { MarkdownText } from "../markdown-text";
+import { TooltipIconButton } from "../tooltip-icon-button";
+import {
+  BranchSegment,
+  buildBranchTree,
+  countLeaves,
+  flattenBranchTree,
+  getSegmentAnswer,
+  getSegmentLabel,
+} from "./utils";
+
+const LABEL_LENGTH = 80;
+
+function SegmentTree({
+  segments,
+  currentCheckpoints,
+  compared,
+  onSelect,
+  onToggleCompare,
+}: {
+  segments: BranchSegment[];
+  currentCheckpoints: Set<string>;
+  compared: BranchSegment[];
+  onSelect: (segment: BranchSegment) => void;
+  onToggleCompare: (segment: BranchSegment) => void;
+}) {
+  return (
+    <ul className="flex flex-col gap-2">
+      {segments.map((segment) => {
+        const isCurrent = currentCheckpoints.has(segment.id);
+        const isLeaf = segment.children.length === 0;
+        const label = getSegmentLabel(segment);
+        const isCompared = compared.some((s) => s.id === segment.id);
+        return (
+          <li key={segment.id}>
+            <div
+              className={cn(
+                "flex items-center gap-2 rounded-md border px-3 py-2 text-sm",
+                isCurrent
+                  ? "border-gray-900 bg-gray-100"
+                  : "border-gray-200 bg-white",
+              )}
+            >
+              <span
+                className={cn(
+                  "size-2 shrink-0 rounded-full",
+                  isCurrent ? "bg-gray-900" : "bg-gray-300",
+                )}
+              />
+              <button
+                className="min-w-0 flex-1 cursor-pointer truncate text-left hover:underline"
+                onClick={() => onSelect(segment)}
+                title={isLeaf ? "Show this branch" : "Show this part"}
+              >
+                {label.length > LABEL_LENGTH
+                  ? `${label.slice(0, LABEL_LENGTH)}...`
+                  : label}
+              </button>
+              <span className="shrink-0 text-xs text-gray-500">
+                {segment.messages.length} msg
+              </span>
+              {isLeaf && (
+                <label className="flex shrink-0 cursor-pointer items-center gap-1 text-xs text-gray-500">
+                  <input
+                    type="checkbox"
+                    checked={isCompared}
+                    onChange={() => onToggleCompare(segment)}
+                  />
+                  Compare
+                </label>
+              )}
+            </div>
+            {segment.children.length > 0 && (
+              <div className="mt-2 ml-3 border-l-2 border-gray-200 pl-3">
+                <SegmentTree
+                  segments={segment.children}
+                  currentCheckpoints={currentCheckpoints}
+                  compared={compared}
+                  onSelect={onSelect}
+                  onToggleCompare={onToggleCompare}
+                />
+              </div>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
+
+function BranchComparison({ branches }: { branches: BranchSegment[] }) {
+  return (
+    <div className="grid grid-cols-2 divide-x border-t">
+      {branches.map((branch) => (
+        <div
+          key={branch.id}
+          className="flex min-w-0 flex-col gap-2 p-4"
+        >
+          <p className="truncate text-xs font-medium text-gray-500">
+            {getSegmentLabel(branch)}
+          </p>
+          {getSegmentAnswer(branch) ? (
+            <MarkdownText>{getSegmentAnswer(branch)!}</MarkdownText>
+          ) : (
+            <p className="text-sm text-gray-500">No answer in this branch.</p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Header button opening a tree of every branch of the current thread, which
+ * can switch to any branch and compare the answers of two branches.
+ */
+export function BranchTree() {
+  const stream = useStreamContext();
+  const [Artifact, { open, setOpen }] = useArtifact();
+  const [comparedIds, setComparedIds] = useState<string[]>([]);
+
+  const tree = stream.experimental_branchTree;
+  const segments = useMemo(() => buildBranchTree(tree), [tree]);
+  const currentCheckpoints = useMemo(
+    () =>
+      new Set(stream.history.map((state) => state.checkpoint.checkpoint_id!)),
+    [stream.history],
+  );
+  const leaves = countLeaves(segments);
+
+  if (leaves < 2) return null;
+
+  const allSegments = flattenBranchTree(segments);
+  const compared = comparedIds
+    .map((id) => allSegments.find((s) => s.id === id))
+    .filter((s) => s !== undefined);
+
+  const toggleCompare = (segment: BranchSegment) =>
+    setComparedIds((prev) =>
+      prev.includes(segment.id)
+        ? prev.filter((id) => id !== segment.id)
+        : // Keep the two most recently picked.
+          [...prev, segment.id].slice(-2),
+    );
+
+  return (
+    <>
+      <TooltipIconButton
+        size="lg"
+        className={cn("p-4", open && "bg-gray-100")}
+        tooltip="Branches"
+        variant="ghost"
+        onClick={() => setOpen((o) => !o)}
+      >
+        <GitBranch className="size-5" />
+      </TooltipIconButton>
+      <Artifact title={`Branches (${leaves})`}>
+        <div className="absolute inset-0 flex flex-col overflow-y-auto">
+          <div className="p-4">
+            <SegmentTree
+              segments={segments}
+              currentCheckpoints={currentCheckpoints}
+              compared={compared}
+              onSelect={(segment) => stream.setBranch(segment.branch)}
+              onToggleCompare={toggleCompare}
+            />
+          </div>
+          {compared.length === 2 ? (
+            <BranchComparison branches={compared} />
+          ) : (
+            <p className="flex items-center gap-2 border-t px-4 py-3 text-sm text-gray-500">
+              <Columns2 className="size-4" />
+              Select two branches to compare their answers side by side.
+            </p>
+          )}
+        </div>
+      </Artifact>
+    </>
+  );
+}
@@ -0,0 +1,96 @@
+import type { Message, ThreadState } from "@langchain/langgraph-sdk";
+import type { StateType, useStreamContext } from "@/providers/Stream";
+import { getContentString } from "../utils";
+
+type BranchSequence = ReturnType<
+  typeof useStreamContext
+>["experimental_branchTree"];
+
+/**
+ * A run of checkpoints without forks. Each fork in the thread's history ends a
+ * segment, with a child segment per branch.
+ */
+export interface BranchSegment {
+  /** ID of the first checkpoint of the segment. */
+  id: string;
+  /** Branch to select in the stream to show this segment. */
+  branch: string;
+  /** Messages added within the segment. */
+  messages: Message[];
+  checkpointIds: string[];
+  lastState: ThreadState<StateType>;
+  children: BranchSegment[];
+}
+
+function buildSegments(
+  sequence: BranchSequence,
+  parentMessageIds: Set<string | undefined>,
+): BranchSegment[] {
+  const nodes = sequence.items.filter((item) => item.type === "node");
+  const fork = sequence.items.find((item) => item.type === "fork");
+
+  if (nodes.length === 0) {
+    return (
+      fork?.items.flatMap((child) => buildSegments(child, parentMessageIds)) ??
+      []
+    );
+  }
+
+  const lastState = nodes[nodes.length - 1].value;
+  const messages = lastState.values.messages ?? [];
+  const messageIds = new Set(messages.map((m) => m.id));
+
+  return [
+    {
+      id: nodes[0].value.checkpoint.checkpoint_id ?? "",
+      branch: nodes[0].path.join(">"),
+      messages: messages.filter((m) => !parentMessageIds.has(m.id)),
+      checkpointIds: nodes.map((n) => n.value.checkpoint.checkpoint_id ?? ""),
+      lastState,
+      children:
+        fork?.items.flatMap((child) => buildSegments(child, messageIds)) ?? [],
+    },
+  ];
+}
+
+/**
+ * Turns the checkpoint tree of a thread into a tree of segments, one per
+ * branch between forks.
+ */
+export function buildBranchTree(tree: BranchSequence): BranchSegment[] {
+  return buildSegments(tree, new Set());
+}
+
+export function flattenBranchTree(segments: BranchSegment[]): BranchSegment[] {
+  return segments.flatMap((s) => [s, ...flattenBranchTree(s.children)]);
+}
+
+export function countLeaves(segments: BranchSegment[]): number {
+  return segments.reduce(
+    (n, s) => n + (s.children.length > 0 ? countLeaves(s.children) : 1),
+    0,
+  );
+}
+
+/**
+ * Short description of a segment: the first human message, or else the first
+ * message with text.
+ */
+export function getSegmentLabel(segment: BranchSegment): string {
+  const message =
+    segment.messages.find((m) => m.type === "human") ??
+    segment.messages.find((m) => getContentString(m.content).trim());
+  return message
+    ? getContentString(message.content).trim()
+    : `${segment.checkpointIds.length} checkpoints`;
+}
+
+/**
+ * The final answer of a branch: the last AI message with text.
+ */
+export function getSegmentAnswer(segment: BranchSegment): string | undefined {
+  const message = (segment.lastState.values.messages ?? []).findLast(
+    (m) => m.type === "ai" && getContentString(m.content).trim(),
+  );
+  return message ? getContentString(message.content) : undefined;
+}
@@ -0,0 +1,449 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useQueryState } from "nuqs";
+import { toast } from "sonner";
+import { GitFork, History, LoaderCircle, Pencil, Undo2 } from "lucide-react";
+import type { Checkpoint, Message } from "@langchain/langgraph-sdk";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { cn } from "@/lib/utils";
+import { formatConfigValue } from "@/lib/config-diff";
+import { StateType, useStreamContext } from "@/providers/Stream";
+import { useArtifact } from "../artifact";
+import { TooltipIconButton } from "../tooltip-icon-button";
+import { getContentString } from "../utils";
+import {
+  buildStatePatch,
+  CheckpointDiff,
+  CheckpointState,
+  diffCheckpointStates,
+  getCheckpointId,
+  getCheckpointNodes,
+} from "./utils";
+
+const CHECKPOINT_HISTORY_LIMIT = 100;
+const MESSAGE_PREVIEW_LENGTH = 160;
+
+function formatTimestamp(value: string | null | undefined) {
+  return value ? new Date(value).toLocaleString() : "—";
+}
+
+function MessageSummary({ message }: { message: Message }) {
+  const text = getContentString(message.content);
+  const toolCalls =
+    message.type === "ai" ? (message.tool_calls?.length ?? 0) : 0;
+  return (
+    <span className="flex min-w-0 items-baseline gap-2">
+      <code className="shrink-0 rounded bg-gray-100 px-1.5 py-0.5 text-xs">
+        {message.type}
+        {message.type === "tool" && message.name ? `: ${message.name}` : ""}
+      </code>
+      <span className="truncate text-gray-600">
+        {text.slice(0, MESSAGE_PREVIEW_LENGTH) ||
+          (toolCalls > 0
+            ? `${toolCalls} tool ${toolCalls === 1 ? "call" : "calls"}`
+            : "")}
+      </span>
+    </span>
+  );
+}
+
+function DiffSummary({ diff }: { diff: CheckpointDiff }) {
+  const sections: [string, Message[]][] = [
+    ["Added", diff.addedMessages],
+    ["Changed", diff.changedMessages],
+    ["Removed", diff.removedMessages],
+  ];
+  const isEmpty =
+    sections.every(([, messages]) => messages.length === 0) &&
+    diff.values.length === 0;
+
+  if (isEmpty) {
+    return <p className="text-sm text-gray-500">No changes to the state.</p>;
+  }
+
+  return (
+    <div className="flex flex-col gap-2 text-sm">
+      {sections.map(
+        ([label, messages]) =>
+          messages.length > 0 && (
+            <div key={label}>
+              <p className="text-xs font-medium text-gray-500">
+                {label} messages
+              </p>
+              <ul className="flex flex-col gap-1">
+                {messages.map((message, idx) => (
+                  <li key={message.id ?? idx}>
+                    <MessageSummary message={message} />
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ),
+      )}
+      {diff.values.length > 0 && (
+        <table className="w-full font-mono text-xs">
+          <tbody>
+            {diff.values.map((entry) => (
+              <tr key={entry.path}>
+                <td className="pr-2 align-top font-medium">{entry.path}</td>
+                <td className="pr-2 align-top break-all text-red-700">
+                  {formatConfigValue(entry.before)}
+                </td>
+                <td className="align-top break-all text-green-700">
+                  {formatConfigValue(entry.after)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+function serializeContent(content: Message["content"]) {
+  return typeof content === "string"
+    ? content
+    : JSON.stringify(content, null, 2);
+}
+
+/**
+ * Applies the edited message contents and values to the state of a
+ * checkpoint. Throws if edited JSON does not parse.
+ */
+function applyEdits(
+  values: StateType,
+  messageEdits: Record<string, string>,
+  valuesEdit: string | undefined,
+): StateType {
+  const messages = (values.messages ?? []).map((message) => {
+    const edit = message.id ? messageEdits[message.id] : undefined;
+    if (edit === undefined) return message;
+    return {
+      ...message,
+      content: typeof message.content === "string" ? edit : JSON.parse(edit),
+    } as Message;
+  });
+  const rest =
+    valuesEdit !== undefined ? JSON.parse(valuesEdit) : { ...values };
+  return { ...rest, messages };
+}
+
+function CheckpointDetails({
+  state,
+  parent,
+  onFork,
+}: {
+  state: CheckpointState;
+  parent: CheckpointState | undefined;
+  onFork: (state: CheckpointState, patch: Partial<StateType>) => Promise<void>;
+}) {
+  const diff = useMemo(
+    () => diffCheckpointStates(parent, state),
+    [parent, state],
+  );
+  const [messageEdits, setMessageEdits] = useState<Record<string, string>>({});
+  const [valuesEdit, setValuesEdit] = useState<string>();
+  const [forking, setForking] = useState(false);
+
+  const { messages = [], ...otherValues } = state.values;
+  const hasEdits =
+    Object.keys(messageEdits).length > 0 || valuesEdit !== undefined;
+
+  const handleFork = async () => {
+    let patch: Partial<StateType>;
+    try {
+      patch = buildStatePatch(
+        state.values,
+        applyEdits(state.values, messageEdits, valuesEdit),
+      );
+    } catch (e) {
+      toast.error("Invalid JSON", {
+        description: e instanceof Error ? e.message : String(e),
+        richColors: true,
+        closeButton: true,
+      });
+      return;
+    }
+    setForking(true);
+    try {
+      await onFork(state, patch);
+      setMessageEdits({});
+      setValuesEdit(undefined);
+    } finally {
+      setForking(false);
+    }
+  };
+
+  return (
+    <div className="flex min-w-0 flex-1 flex-col">
+      <div className="flex flex-col gap-1 border-b px-4 py-2 text-sm">
+        <span className="truncate font-mono text-xs text-gray-500">
+          {getCheckpointId(state)}
+        </span>
+        <span>
+          Step {state.metadata?.step ?? "—"} ·{" "}
+          {formatTimestamp(state.created_at)}
+        </span>
+        {state.next.length > 0 && (
+          <span className="text-gray-600">
+            Next: <code>{state.next.join(", ")}</code>
+          </span>
+        )}
+      </div>
+      <div className="flex flex-1 flex-col gap-4 overflow-y-auto p-4">
+        <section className="flex flex-col gap-2">
+          <h3 className="text-sm font-medium">Changes</h3>
+          <DiffSummary diff={diff} />
+        </section>
+        <section className="flex flex-col gap-2">
+          <h3 className="text-sm font-medium">Messages</h3>
+          <ul className="flex flex-col gap-2">
+            {messages.map((message, idx) => {
+              const edit = message.id ? messageEdits[message.id] : undefined;
+              return (
+                <li
+                  key={message.id ?? idx}
+                  className="flex flex-col gap-1 text-sm"
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <MessageSummary message={message} />
+                    {message.id && (
+                      <TooltipIconButton
+                        tooltip={edit === undefined ? "Edit" : "Undo edit"}
+                        onClick={() =>
+                          setMessageEdits((prev) => {
+                            const { [message.id!]: _removed, ...rest } = prev;
+                            return edit === undefined
+                              ? {
+                                  ...rest,
+                                  [message.id!]: serializeContent(
+                                    message.content,
+                                  ),
+                                }
+                              : rest;
+                          })
+                        }
+                      >
+                        {edit === undefined ? <Pencil /> : <Undo2 />}
+                      </TooltipIconButton>
+                    )}
+                  </div>
+                  {edit !== undefined && (
+                    <Textarea
+                      value={edit}
+                      onChange={(e) =>
+                        setMessageEdits((prev) => ({
+                          ...prev,
+                          [message.id!]: e.target.value,
+                        }))
+                      }
+                      className="min-h-24 font-mono text-xs"
+                    />
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        </section>
+        <section className="flex flex-col gap-2">
+          <div className="flex items-center justify-between">
+            <h3 className="text-sm font-medium">Other values</h3>
+            <TooltipIconButton
+              tooltip={valuesEdit === undefined ? "Edit" : "Undo edit"}
+              onClick={() =>
+                setValuesEdit((prev) =>
+                  prev === undefined
+                    ? JSON.stringify(otherValues, null, 2)
+                    : undefined,
+                )
+              }
+            >
+              {valuesEdit === undefined ? <Pencil /> : <Undo2 />}
+            </TooltipIconButton>
+          </div>
+          {valuesEdit !== undefined ? (
+            <Textarea
+              value={valuesEdit}
+              onChange={(e) => setValuesEdit(e.target.value)}
+              className="min-h-32 font-mono text-xs"
+            />
+          ) : (
+            <pre className="overflow-x-auto rounded-md bg-gray-50 p-2 text-xs">
+              {JSON.stringify(otherValues, null, 2)}
+            </pre>
+          )}
+        </section>
+      </div>
+      <div className="flex items-center justify-end gap-2 border-t px-4 py-2">
+        <Button
+          size="sm"
+          onClick={handleFork}
+          disabled={forking || (!hasEdits && state.next.length === 0)}
+          title={
+            hasEdits
+              ? "Save the edited state as a new checkpoint and run from it"
+              : "Run the graph from this checkpoint"
+          }
+        >
+          {forking ? (
+            <LoaderCircle className="size-4 animate-spin" />
+          ) : (
+            <GitFork className="size-4" />
+          )}
+          {hasEdits ? "Fork with edits and continue" : "Continue from here"}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Header button opening a list of every checkpoint of the current thread,
+ * where the state of any checkpoint can be inspected, edited and run from.
+ */
+export function CheckpointBrowser() {
+  const stream = useStreamContext();
+  const [threadId] = useQueryState("threadId");
+  const [Artifact, { open, setOpen }] = useArtifact();
+  const [history, setHistory] = useState<CheckpointState[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [selectedId, setSelectedId] = useState<string>();
+
+  const { client, isLoading } = stream;
+
+  const fetchHistory = useCallback(async () => {
+    if (!threadId) return;
+    setLoading(true);
+    try {
+      setHistory(
+        await client.threads.getHistory<StateType>(threadId, {
+          limit: CHECKPOINT_HISTORY_LIMIT,
+        }),
+      );
+    } catch (e) {
+      console.error("Failed to fetch thread history", e);
+      toast.error("Failed to load checkpoints", {
+        richColors: true,
+        closeButton: true,
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [client, threadId]);
+
+  useEffect(() => {
+    if (open && !isLoading) fetchHistory();
+  }, [open, isLoading, fetchHistory]);
+
+  useEffect(() => {
+    setHistory([]);
+    setSelectedId(undefined);
+  }, [threadId]);
+
+  const byId = useMemo(
+    () => new Map(history.map((state) => [getCheckpointId(state), state])),
+    [history],
+  );
+
+  if (!threadId) return null;
+
+  const selected =
+    history.find((state) => getCheckpointId(state) === selectedId) ??
+    history[0];
+  const parentOf = (state: CheckpointState) =>
+    byId.get(state.parent_checkpoint?.checkpoint_id ?? "");
+
+  const handleFork = async (
+    state: CheckpointState,
+    patch: Partial<StateType>,
+  ) => {
+    try {
+      let checkpoint: Checkpoint = state.checkpoint;
+      if (Object.keys(patch).length > 0) {
+        const { configurable } = await client.threads.updateState(threadId, {
+          values: patch,
+          checkpoint: state.checkpoint,
+        });
+        checkpoint = {
+          ...state.checkpoint,
+          checkpoint_id: configurable?.checkpoint_id,
+          checkpoint_ns:
+            (configurable?.checkpoint_ns as string | undefined) ??
+            state.checkpoint.checkpoint_ns,
+        };
+      }
+      stream.submit(undefined, {
+        checkpoint,
+        streamMode: ["values"],
+        config: stream.runnableConfig,
+      });
+      setSelectedId(undefined);
+    } catch (e) {
+      console.error("Failed to fork from checkpoint", e);
+      toast.error("Failed to fork from checkpoint", {
+        description: e instanceof Error ? e.message : String(e),
+        richColors: true,
+        closeButton: true,
+      });
+    }
+  };
+
+  return (
+    <>
+      <TooltipIconButton
+        size="lg"
+        className={cn("p-4", open && "bg-gray-100")}
+        tooltip="Checkpoints"
+        variant="ghost"
+        onClick={() => setOpen((o) => !o)}
+      >
+        <History className="size-5" />
+      </TooltipIconButton>
+      <Artifact title={`Checkpoints (${history.length})`}>
+        <div className="absolute inset-0 flex">
+          <ol className="flex w-64 shrink-0 flex-col overflow-y-auto border-r p-2">
+            {loading && history.length === 0 && (
+              <li className="p-2 text-sm text-gray-500">Loading...</li>
+            )}
+            {history.map((state) => {
+              const id = getCheckpointId(state);
+              const nodes = getCheckpointNodes(state, parentOf(state));
+              return (
+                <li key={id}>
+                  <button
+                    className={cn(
+                      "flex w-full cursor-pointer flex-col items-start rounded-sm px-2 py-1.5 text-left text-sm hover:bg-gray-100",
+                      state === selected && "bg-gray-100",
+                    )}
+                    onClick={() => setSelectedId(id)}
+                  >
+                    <span className="flex w-full items-center gap-2">
+                      <span className="text-xs text-gray-500">
+                        {state.metadata?.step ?? "—"}
+                      </span>
+                      <span className="truncate font-mono font-medium">
+                        {nodes.join(", ") || "start"}
+                      </span>
+                    </span>
+                    <span className="text-xs text-gray-500">
+                      {formatTimestamp(state.created_at)}
+                    </span>
+                  </button>
+                </li>
+              );
+            })}
+          </ol>
+          {selected && (
+            <CheckpointDetails
+              key={getCheckpointId(selected)}
+              state={selected}
+              parent={parentOf(selected)}
+              onFork={handleFork}
+            />
+          )}
+        </div>
+      </Artifact>
+    </>
+  );
+}
@@ -0,0 +1,91 @@
+import type { Message, ThreadState } from "@langchain/langgraph-sdk";
+import isEqual from "lodash/isEqual";
+import { ConfigDiffEntry, diffValues } from "@/lib/config-diff";
+import type { StateType } from "@/providers/Stream";
+
+export type CheckpointState = ThreadState<StateType>;
+
+export interface CheckpointDiff {
+  addedMessages: Message[];
+  changedMessages: Message[];
+  removedMessages: Message[];
+  /** Changes to the state values other than `messages`. */
+  values: ConfigDiffEntry[];
+}
+
+/**
+ * Names the nodes which produced a checkpoint. Older servers record the writes
+ * of each node in the metadata; otherwise these are the nodes which were due
+ * to run at the parent checkpoint.
+ */
+export function getCheckpointNodes(
+  state: CheckpointState,
+  parent: CheckpointState | undefined,
+): string[] {
+  const writes = state.metadata?.writes;
+  if (typeof writes === "object" && writes !== null) {
+    return Object.keys(writes);
+  }
+  if (state.metadata?.source === "input") return ["input"];
+  if (state.metadata?.source === "update") return ["update"];
+  return parent?.next ?? [];
+}
+
+export function getCheckpointId(state: CheckpointState) {
+  return state.checkpoint.checkpoint_id ?? "";
+}
+
+function withoutMessages(values: StateType | undefined) {
+  const { messages: _messages, ...rest } = values ?? ({} as StateType);
+  return rest;
+}
+
+/**
+ * Compares the state of a checkpoint with its parent. Messages are matched by
+ * id, other values are compared key by key.
+ */
+export function diffCheckpointStates(
+  before: CheckpointState | undefined,
+  after: CheckpointState,
+): CheckpointDiff {
+  const beforeMessages = before?.values.messages ?? [];
+  const afterMessages = after.values.messages ?? [];
+  const beforeById = new Map(beforeMessages.map((m) => [m.id, m]));
+  const afterIds = new Set(afterMessages.map((m) => m.id));
+
+  return {
+    addedMessages: afterMessages.filter((m) => !beforeById.has(m.id)),
+    changedMessages: afterMessages.filter(
+      (m) => beforeById.has(m.id) && !isEqual(beforeById.get(m.id), m),
+    ),
+    removedMessages: beforeMessages.filter((m) => !afterIds.has(m.id)),
+    values: diffValues(
+      withoutMessages(before?.values),
+      withoutMessages(after.values),
+    ),
+  };
+}
+
+/**
+ * Builds the update which turns the values of a checkpoint into the edited
+ * values. Messages are merged by id on the server, so only the edited ones
+ * are sent.
+ */
+export function buildStatePatch(
+  original: StateType,
+  edited: StateType,
+): Partial<StateType> {
+  const patch: Record<string, unknown> = {};
+  const originalById = new Map(original.messages.map((m) => [m.id, m]));
+  const messages = edited.messages.filter(
+    (m) => !isEqual(originalById.get(m.id), m),
+  );
+  if (messages.length > 0) patch.messages = messages;
+
+  const rest = withoutMessages(edited) as Record<string, unknown>;
+  const originalRest = withoutMessages(original) as Record<string, unknown>;
+  for (const key of Object.keys(rest)) {
+    if (!isEqual(rest[key], originalRest[key])) patch[key] = rest[key];
+  }
+  return patch as Partial<StateType>;
+}
@@ -0,0 +1,198 @@
+import { ReactNode, useMemo, useState } from "react";
+import { BookOpen } from "lucide-react";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipProvider,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import { CitationsContext, useCitations } from "@/hooks/use-citations";
+import { useStreamContext } from "@/providers/Stream";
+import { TooltipIconButton } from "../tooltip-icon-button";
+import type { RetrievedDocument } from "../messages/tool-results/utils";
+import {
+  CITATION_HREF_PREFIX,
+  getRetrievalSources,
+  getSourceLabel,
+} from "./utils";
+
+// Scores are only meaningful to show when they come from the reranker.
+const RERANK_PROVIDER_WITH_SCORES = "flash";
+const PASSAGE_PREVIEW_LENGTH = 400;
+
+export function CitationsProvider({
+  documents,
+  children,
+}: {
+  documents: RetrievedDocument[];
+  children: ReactNode;
+}) {
+  return (
+    <CitationsContext.Provider value={documents}>
+      {children}
+    </CitationsContext.Provider>
+  );
+}
+
+function SourceLink({ document }: { document: RetrievedDocument }) {
+  return /^https?:\/\//.test(document.source) ? (
+    <a
+      href={document.source}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="break-all underline underline-offset-2"
+    >
+      {document.source}
+    </a>
+  ) : (
+    <span className="font-mono break-all">{document.source}</span>
+  );
+}
+
+function truncate(text: string, length: number) {
+  return text.length > length ? `${text.slice(0, length)}...` : text;
+}
+
+/**
+ * Numbered reference to a retrieved document, showing the source and passage
+ * on hover.
+ */
+export function CitationMarker({ index }: { index: number }) {
+  const document = useCitations()[index - 1];
+  if (!document) return <span>[{index}]</span>;
+
+  return (
+    <TooltipProvider>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <a
+            href={`${CITATION_HREF_PREFIX}${index}`}
+            onClick={(e) => e.preventDefault()}
+            className="bg-muted text-muted-foreground hover:bg-primary hover:text-primary-foreground mx-0.5 inline-flex h-4 min-w-4 items-center justify-center rounded px-1 align-super text-[10px] font-medium no-underline"
+          >
+            {index}
+          </a>
+        </TooltipTrigger>
+        <TooltipContent
+          side="top"
+          className="flex max-w-sm flex-col gap-1.5 py-2 text-left"
+        >
+          <SourceLink document={document} />
+          <p className="whitespace-pre-wrap opacity-80">
+            {truncate(document.content, PASSAGE_PREVIEW_LENGTH)}
+          </p>
+        </TooltipContent>
+      </Tooltip>
+    </TooltipProvider>
+  );
+}
+
+/**
+ * Footnotes listing the documents an answer was based on.
+ */
+export function CitationFootnotes() {
+  const documents = useCitations();
+  if (documents.length === 0) return null;
+
+  return (
+    <div className="mt-4 flex flex-wrap items-center gap-x-3 gap-y-1 border-t pt-2 text-xs text-gray-500">
+      <span className="font-medium">Sources:</span>
+      {documents.map((document, idx) => (
+        <span
+          key={idx}
+          className="flex items-center"
+        >
+          <CitationMarker index={idx + 1} />
+          <span className="max-w-48 truncate">{getSourceLabel(document)}</span>
+        </span>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Header button opening a drawer with every document retrieved in the thread.
+ */
+export function SourcesDrawer() {
+  const stream = useStreamContext();
+  const [open, setOpen] = useState(false);
+  const sources = useMemo(
+    () => getRetrievalSources(stream.messages),
+    [stream.messages],
+  );
+  const config = stream.threadConfig ?? stream.runnableConfig;
+  const showScores =
+    config.configurable?.rerank_provider === RERANK_PROVIDER_WITH_SCORES;
+
+  if (sources.length === 0) return null;
+
+  const count = sources.reduce((n, s) => n + s.documents.length, 0);
+
+  return (
+    <Sheet
+      open={open}
+      onOpenChange={setOpen}
+    >
+      <TooltipIconButton
+        size="lg"
+        className="p-4"
+        tooltip="Sources"
+        variant="ghost"
+        onClick={() => setOpen(true)}
+      >
+        <BookOpen className="size-5" />
+      </TooltipIconButton>
+      <SheetContent className="w-full overflow-y-auto sm:max-w-lg">
+        <SheetHeader>
+          <SheetTitle>Sources</SheetTitle>
+          <SheetDescription>
+            {count} {count === 1 ? "document" : "documents"} retrieved in this
+            thread
+            {showScores && ", with reranker scores"}.
+          </SheetDescription>
+        </SheetHeader>
+        <div className="flex flex-col gap-6 px-4 pb-4">
+          {sources.map((source) => (
+            <section
+              key={source.toolCallId}
+              className="flex flex-col gap-2"
+            >
+              <h3 className="text-sm font-medium text-gray-900">
+                <code className="rounded bg-gray-100 px-1.5 py-0.5">
+                  {source.toolName}
+                </code>
+              </h3>
+              <ol className="flex flex-col gap-2">
+                {source.documents.map((document, idx) => (
+                  <li
+                    key={idx}
+                    className="rounded-md border p-3 text-sm"
+                  >
+                    <div className="flex items-start justify-between gap-2 text-xs text-gray-700">
+                      <SourceLink document={document} />
+                      {showScores && document.score !== undefined && (
+                        <span className="shrink-0 rounded bg-gray-100 px-1.5 py-0.5 font-mono">
+                          {document.score.toFixed(3)}
+                        </span>
+                      )}
+                    </div>
+                    <p className="mt-2 whitespace-pre-wrap text-gray-600">
+                      {truncate(document.content, PASSAGE_PREVIEW_LENGTH)}
+                    </p>
+                  </li>
+                ))}
+              </ol>
+            </section>
+          ))}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
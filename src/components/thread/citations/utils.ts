@@ -0,0 +1,100 @@
+import type { Message, ToolMessage } from "@langchain/langgraph-sdk";
+import { getContentString } from "../utils";
+import { RETRIEVAL_TOOL_NAMES } from "../messages/tool-results";
+import {
+  getToolResultContent,
+  parseRetrievedDocuments,
+  RetrievedDocument,
+} from "../messages/tool-results/utils";
+
+export interface RetrievalSources {
+  toolName: string;
+  toolCallId: string;
+  documents: RetrievedDocument[];
+}
+
+function getRetrievedDocuments(message: Message): RetrievedDocument[] {
+  if (message.type !== "tool" || !RETRIEVAL_TOOL_NAMES.includes(message.name!))
+    return [];
+  return (
+    parseRetrievedDocuments(getToolResultContent(message as ToolMessage)) ?? []
+  );
+}
+
+// Shared, so messages without citations keep a stable value when memoized.
+const NO_DOCUMENTS: RetrievedDocument[] = [];
+
+function hasText(message: Message) {
+  return getContentString(message.content).trim().length > 0;
+}
+
+/**
+ * Returns the documents retrieved for an AI message: those returned by the
+ * retrieval tools called since the previous human message or answer.
+ */
+export function getCitedDocuments(
+  messages: Message[],
+  messageId: string | undefined,
+): RetrievedDocument[] {
+  const index = messages.findIndex((m) => m.id === messageId);
+  if (index === -1) return NO_DOCUMENTS;
+
+  const documents: RetrievedDocument[][] = [];
+  for (let i = index - 1; i >= 0; i--) {
+    const message = messages[i];
+    if (message.type === "human") break;
+    if (message.type === "ai" && hasText(message)) break;
+    documents.unshift(getRetrievedDocuments(message));
+  }
+  const cited = documents.flat();
+  return cited.length > 0 ? cited : NO_DOCUMENTS;
+}
+
+/**
+ * Lists every retrieval tool call of the conversation with its documents.
+ */
+export function getRetrievalSources(messages: Message[]): RetrievalSources[] {
+  return messages.flatMap((message) => {
+    const documents = getRetrievedDocuments(message);
+    if (documents.length === 0) return [];
+    const tool = message as ToolMessage;
+    return [
+      {
+        toolName: tool.name ?? "retrieval",
+        toolCallId: tool.tool_call_id,
+        documents,
+      },
+    ];
+  });
+}
+
+export const CITATION_HREF_PREFIX = "#citation-";
+
+// Matches `[1]` style markers, but not indexing such as `x[1]` or links.
+const CITATION_MARKER_REGEX = /(?<!\w)\[(\d+)\](?![(:])/g;
+// Code spans and fenced code, which are left untouched.
+const CODE_REGEX = /(```[\s\S]*?(?:```|$)|`[^`\n]*`)/;
+
+/**
+ * Turns the `[n]` citation markers of a message into links to the cited
+ * document, so they can be rendered as footnote references.
+ */
+export function linkCitationMarkers(text: string, count: number): string {
+  if (count === 0) return text;
+  return text
+    .split(CODE_REGEX)
+    .map((part, idx) =>
+      idx % 2 === 1
+        ? part
+        : part.replace(CITATION_MARKER_REGEX, (marker, n) =>
+            Number(n) >= 1 && Number(n) <= count
+              ? `[${n}](${CITATION_HREF_PREFIX}${n})`
+              : marker,
+          ),
+    )
+    .join("");
+}
+
+export function getSourceLabel(document: RetrievedDocument) {
+  return document.title ?? document.source.split("/").pop() ?? document.source;
+}
@@ -0,0 +1,64 @@
+import type { Message } from "@langchain/langgraph-sdk";
+import { getContentString } from "./utils";
+import { resolveLanguage } from "./code-languages";
+
+export interface CodeBlockRef {
+  language: string;
+  code: string;
+  /** Position among the code blocks of the same language, starting at 1. */
+  version?: number;
+  /** ID of the message containing the block. */
+  messageId?: string;
+  /** File name given by a `# file: foo.jl` comment on the first line. */
+  fileName?: string;
+}
+
+// Fenced code blocks, indented by up to 3 spaces (as in list items) and
+// closed by a fence at least as long as the opening one.
+const CODE_FENCE_REGEX =
+  /^( {0,3})(([`~])\3{2,})[ \t]*([\w+#-]*)[^\n]*\n([\s\S]*?)\n {0,3}\2\3*[ \t]*$/gm;
+
+// `# file: foo.jl`, `// file: foo.cpp` or `-- file: foo.sql`.
+const FILE_HINT_REGEX = /^\s*(?:#|\/\/|--|;)\s*file(?:name)?:\s*(\S+)/i;
+
+/**
+ * Removes the indentation of the opening fence from the lines of a block, as
+ * Markdown renderers do.
+ */
+function stripFenceIndent(code: string, indent: string): string {
+  if (!indent) return code;
+  const regex = new RegExp(`^ {0,${indent.length}}`, "gm");
+  return code.replace(regex, "");
+}
+
+export function getFileNameHint(code: string): string | undefined {
+  const firstLine = code.split("\n", 1)[0];
+  return FILE_HINT_REGEX.exec(firstLine)?.[1];
+}
+
+/**
+ * Returns every fenced code block in the assistant messages, in order.
+ */
+export function extractCodeBlocks(messages: Message[]): CodeBlockRef[] {
+  const versions = new Map<string, number>();
+  const blocks: CodeBlockRef[] = [];
+
+  for (const message of messages) {
+    if (message.type !== "ai") continue;
+    const text = getContentString(message.content);
+    for (const match of text.matchAll(CODE_FENCE_REGEX)) {
+      const language = resolveLanguage(match[4]);
+      const code = stripFenceIndent(match[5], match[1]);
+      const version = (versions.get(language) ?? 0) + 1;
+      versions.set(language, version);
+      blocks.push({
+        language,
+        code,
+        version,
+        messageId: message.id,
+        fileName: getFileNameHint(code),
+      });
+    }
+  }
+  return blocks;
+}
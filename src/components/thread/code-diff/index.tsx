@@ -0,0 +1,230 @@
+import { ReactNode, useCallback, useMemo, useState } from "react";
+import { Columns2, Rows2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { CodeDiffContext } from "@/hooks/use-code-diff";
+import { cn } from "@/lib/utils";
+import {
+  countChanges,
+  diffLines,
+  DiffLine,
+  toSplitRows,
+} from "@/lib/line-diff";
+import { useStreamContext } from "@/providers/Stream";
+import { useArtifact } from "../artifact";
+import { CodeBlockRef, extractCodeBlocks } from "../code-blocks";
+import { findCodeBlock, findPreviousVersion, getCodeBlockLabel } from "./utils";
+
+type DiffLayout = "unified" | "split";
+
+const LINE_STYLES: Record<DiffLine["type"], string> = {
+  equal: "",
+  added: "bg-green-950/60 text-green-200",
+  removed: "bg-red-950/60 text-red-200",
+};
+
+const LINE_MARKERS: Record<DiffLine["type"], string> = {
+  equal: " ",
+  added: "+",
+  removed: "-",
+};
+
+function LineNumber({ value }: { value?: number }) {
+  return (
+    <td className="w-10 pr-2 text-right align-top text-zinc-500 select-none">
+      {value}
+    </td>
+  );
+}
+
+export function UnifiedDiff({ lines }: { lines: DiffLine[] }) {
+  return (
+    <table className="w-full border-collapse font-mono text-xs">
+      <tbody>
+        {lines.map((line, idx) => (
+          <tr
+            key={idx}
+            className={LINE_STYLES[line.type]}
+          >
+            <LineNumber value={line.oldLine} />
+            <LineNumber value={line.newLine} />
+            <td className="w-4 align-top text-zinc-500 select-none">
+              {LINE_MARKERS[line.type]}
+            </td>
+            <td className="pr-4 break-all whitespace-pre-wrap">{line.text}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+function SplitDiffCell({ line, number }: { line?: DiffLine; number?: number }) {
+  return (
+    <>
+      <LineNumber value={number} />
+      <td
+        className={cn(
+          "w-1/2 border-r border-zinc-800 pr-2 break-all whitespace-pre-wrap",
+          line ? LINE_STYLES[line.type] : "bg-zinc-900",
+        )}
+      >
+        {line?.text}
+      </td>
+    </>
+  );
+}
+
+function SplitDiff({ lines }: { lines: DiffLine[] }) {
+  const rows = useMemo(() => toSplitRows(lines), [lines]);
+  return (
+    <table className="w-full table-fixed border-collapse font-mono text-xs">
+      <colgroup>
+        <col className="w-10" />
+        <col />
+        <col className="w-10" />
+        <col />
+      </colgroup>
+      <tbody>
+        {rows.map((row, idx) => (
+          <tr key={idx}>
+            <SplitDiffCell
+              line={row.left}
+              number={row.left?.oldLine}
+            />
+            <SplitDiffCell
+              line={row.right}
+              number={row.right?.newLine}
+            />
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+function CodeDiffView({
+  before,
+  after,
+}: {
+  before: CodeBlockRef;
+  after: CodeBlockRef;
+}) {
+  const [layout, setLayout] = useState<DiffLayout>("unified");
+  const lines = useMemo(
+    () => diffLines(before.code, after.code),
+    [before.code, after.code],
+  );
+  const { added, removed } = countChanges(lines);
+
+  return (
+    <div className="absolute inset-0 flex flex-col">
+      <div className="flex items-center justify-between gap-2 border-b px-4 py-2 text-sm">
+        <span>
+          <span className="text-green-700">+{added}</span>{" "}
+          <span className="text-red-700">-{removed}</span>
+        </span>
+        <div className="flex items-center gap-1">
+          <Button
+            variant={layout === "unified" ? "secondary" : "ghost"}
+            size="sm"
+            onClick={() => setLayout("unified")}
+          >
+            <Rows2 className="size-4" />
+            Unified
+          </Button>
+          <Button
+            variant={layout === "split" ? "secondary" : "ghost"}
+            size="sm"
+            onClick={() => setLayout("split")}
+          >
+            <Columns2 className="size-4" />
+            Split
+          </Button>
+        </div>
+      </div>
+      <div className="flex-1 overflow-auto bg-black py-2 text-zinc-100">
+        {added === 0 && removed === 0 ? (
+          <p className="px-4 text-sm text-zinc-400">The code is identical.</p>
+        ) : layout === "unified" ? (
+          <UnifiedDiff lines={lines} />
+        ) : (
+          <SplitDiff lines={lines} />
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Lets code blocks in the conversation be compared, showing the diff between
+ * two blocks in the artifact panel.
+ */
+export function CodeDiffProvider({ children }: { children: ReactNode }) {
+  const stream = useStreamContext();
+  const [Artifact, { setOpen }] = useArtifact();
+  const [selected, setSelected] = useState<CodeBlockRef>();
+  const [diff, setDiff] = useState<{
+    before: CodeBlockRef;
+    after: CodeBlockRef;
+  }>();
+
+  const blocks = useMemo(
+    () => extractCodeBlocks(stream.messages),
+    [stream.messages],
+  );
+
+  const openDiff = useCallback(
+    (before: CodeBlockRef, after: CodeBlockRef) => {
+      setDiff({
+        before: findCodeBlock(blocks, before),
+        after: findCodeBlock(blocks, after),
+      });
+      setOpen(true);
+    },
+    [blocks, setOpen],
+  );
+
+  const toggleSelected = useCallback(
+    (block: CodeBlockRef) => {
+      if (!selected) {
+        setSelected(block);
+      } else if (selected.code === block.code) {
+        setSelected(undefined);
+      } else {
+        // Show the earlier block as the old side of the diff.
+        const first = findCodeBlock(blocks, selected);
+        const second = findCodeBlock(blocks, block);
+        const ordered =
+          (first.version ?? 0) <= (second.version ?? 0)
+            ? [first, second]
+            : [second, first];
+        openDiff(ordered[0], ordered[1]);
+        setSelected(undefined);
+      }
+    },
+    [selected, blocks, openDiff],
+  );
+
+  const getPreviousVersion = useCallback(
+    (block: CodeBlockRef) => findPreviousVersion(blocks, block),
+    [blocks],
+  );
+
+  return (
+    <CodeDiffContext.Provider
+      value={{ selected, toggleSelected, openDiff, getPreviousVersion }}
+    >
+      {children}
+      {diff && (
+        <Artifact
+          title={`Diff: ${getCodeBlockLabel(diff.before)} → ${getCodeBlockLabel(diff.after)}`}
+        >
+          <CodeDiffView
+            before={diff.before}
+            after={diff.after}
+          />
+        </Artifact>
+      )}
+    </CodeDiffContext.Provider>
+  );
+}
@@ -0,0 +1,39 @@
+import { getLanguageLabel, resolveLanguage } from "../code-languages";
+import type { CodeBlockRef } from "../code-blocks";
+
+/**
+ * Finds the given block in the conversation, so it can be labelled with its
+ * version.
+ */
+export function findCodeBlock(
+  blocks: CodeBlockRef[],
+  block: CodeBlockRef,
+): CodeBlockRef {
+  const language = resolveLanguage(block.language);
+  const found = blocks.findLast(
+    (b) => b.language === language && b.code === block.code,
+  );
+  return found ?? { ...block, language };
+}
+
+/**
+ * Finds the previous version of a code block: the closest earlier block in the
+ * same language with different code.
+ */
+export function findPreviousVersion(
+  blocks: CodeBlockRef[],
+  block: CodeBlockRef,
+): CodeBlockRef | undefined {
+  const current = findCodeBlock(blocks, block);
+  const index = current.version ? blocks.indexOf(current) : blocks.length;
+  return blocks
+    .slice(0, index)
+    .findLast(
+      (b) => b.language === current.language && b.code !== current.code,
+    );
+}
+
+export function getCodeBlockLabel(block: CodeBlockRef): string {
+  const language = getLanguageLabel(block.language) || "Code";
+  return block.version ? `${language} #${block.version}` : language;
+}
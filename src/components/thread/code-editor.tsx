@@ -0,0 +1,63 @@
+import { KeyboardEvent } from "react";
+import { cn } from "@/lib/utils";
+import { SyntaxHighlighter } from "./syntax-highlighter";
+
+// Must match the font and padding of the highlighted code underneath.
+const EDITOR_TEXT_STYLE = {
+  fontFamily: 'Consolas, Monaco, "Andale Mono", "Ubuntu Mono", monospace',
+  lineHeight: 1.5,
+  tabSize: 4,
+  padding: "1.5rem 1rem",
+};
+
+/**
+ * A textarea laid over a syntax highlighted copy of its value. The textarea
+ * text is transparent, so only the caret and selection are drawn on top.
+ */
+export function CodeEditor({
+  value,
+  onChange,
+  language,
+  disabled,
+  invalid,
+  onKeyDown,
+  className,
+}: {
+  value: string;
+  onChange: (value: string) => void;
+  language: string;
+  disabled?: boolean;
+  invalid?: boolean;
+  onKeyDown?: (e: KeyboardEvent<HTMLTextAreaElement>) => void;
+  className?: string;
+}) {
+  return (
+    <div
+      className={cn(
+        "relative w-full overflow-hidden rounded-md border bg-black text-[13px]",
+        invalid && "border-red-500",
+        disabled && "opacity-60",
+        className,
+      )}
+    >
+      <div aria-hidden>
+        {/* The trailing newline keeps the height in step with the textarea. */}
+        <SyntaxHighlighter
+          language={language}
+          wrapLongLines
+        >
+          {`${value}\n`}
+        </SyntaxHighlighter>
+      </div>
+      <textarea
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        onKeyDown={onKeyDown}
+        disabled={disabled}
+        spellCheck={false}
+        className="absolute inset-0 h-full w-full resize-none overflow-hidden bg-transparent whitespace-pre-wrap text-transparent caret-white outline-none selection:bg-zinc-600/60"
+        style={EDITOR_TEXT_STYLE}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+import { useState } from "react";
+import {
+  ChevronDown,
+  ChevronUp,
+  CircleCheck,
+  CircleX,
+  CircleSlash,
+  LoaderCircle,
+} from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { ExecutionResult } from "@/lib/code-execution";
+
+function formatDuration(ms: number | undefined) {
+  if (ms === undefined) return undefined;
+  return ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(2)} s`;
+}
+
+function StatusLabel({ result }: { result: ExecutionResult }) {
+  switch (result.status) {
+    case "running":
+      return (
+        <span className="flex items-center gap-2 text-zinc-300">
+          <LoaderCircle className="h-4 w-4 animate-spin" />
+          Running...
+        </span>
+      );
+    case "success":
+      return (
+        <span className="flex items-center gap-2 text-green-400">
+          <CircleCheck className="h-4 w-4" />
+          Finished
+        </span>
+      );
+    case "cancelled":
+      return (
+        <span className="flex items-center gap-2 text-zinc-400">
+          <CircleSlash className="h-4 w-4" />
+          Cancelled
+        </span>
+      );
+    case "error":
+      return (
+        <span className="flex items-center gap-2 text-red-400">
+          <CircleX className="h-4 w-4" />
+          Failed
+        </span>
+      );
+  }
+}
+
+/**
+ * Collapsible panel showing the streamed output of a code block run.
+ */
+export function ExecutionResultPanel({
+  result,
+  actions,
+}: {
+  result: ExecutionResult;
+  /**
+   * Extra controls rendered in the panel header.
+   */
+  actions?: React.ReactNode;
+}) {
+  const [isExpanded, setIsExpanded] = useState(true);
+  const duration = formatDuration(result.durationMs);
+  const hasOutput =
+    !!result.stdout ||
+    !!result.stderr ||
+    !!result.error ||
+    !!result.images.length;
+
+  return (
+    <div className="border-t border-zinc-700 font-sans whitespace-normal">
+      <div className="flex items-center justify-between gap-4 px-4 py-2 text-sm">
+        <button
+          className="flex cursor-pointer items-center gap-3"
+          onClick={() => setIsExpanded((e) => !e)}
+        >
+          {isExpanded ? (
+            <ChevronUp className="h-4 w-4" />
+          ) : (
+            <ChevronDown className="h-4 w-4" />
+          )}
+          <StatusLabel result={result} />
+          {duration && (
+            <span className="text-xs text-zinc-400">{duration}</span>
+          )}
+        </button>
+        {actions}
+      </div>
+      {isExpanded && (
+        <div className="flex flex-col gap-2 px-4 pb-4">
+          {!hasOutput && result.status !== "running" && (
+            <p className="text-xs text-zinc-400">No output.</p>
+          )}
+          {result.stdout && (
+            <pre className="max-h-80 overflow-auto font-mono text-xs whitespace-pre-wrap text-zinc-100">
+              {result.stdout}
+            </pre>
+          )}
+          {result.stderr && (
+            <pre
+              className={cn(
+                "max-h-80 overflow-auto font-mono text-xs whitespace-pre-wrap",
+                result.status === "error" ? "text-red-400" : "text-amber-300",
+              )}
+            >
+              {result.stderr}
+            </pre>
+          )}
+          {result.error && !result.stderr.includes(result.error) && (
+            <pre className="font-mono text-xs whitespace-pre-wrap text-red-400">
+              {result.error}
+            </pre>
+          )}
+          {result.images.map((image, idx) => (
+            <figure
+              key={`${image.name}-${idx}`}
+              className="flex flex-col gap-1"
+            >
+              <img
+                src={`data:${image.mimeType};base64,${image.data}`}
+                alt={image.name}
+                className="max-w-full rounded bg-white"
+              />
+              <figcaption className="text-xs text-zinc-400">
+                {image.name}
+              </figcaption>
+            </figure>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
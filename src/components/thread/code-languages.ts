@@ -0,0 +1,134 @@
+import { PrismAsyncLight as SyntaxHighlighterPrism } from "react-syntax-highlighter";
+
+type GrammarModule = { default: unknown };
+
+interface CodeLanguage {
+  /** Name the grammar is registered under. */
+  id: string;
+  /** Name shown in the code block header. */
+  label: string;
+  /** Other names used for the language in Markdown code fences. */
+  aliases: string[];
+  load: () => Promise<GrammarModule>;
+}
+
+// Grammars are split into separate chunks and only loaded once a code block
+// in that language is rendered.
+const CODE_LANGUAGES: CodeLanguage[] = [
+  {
+    id: "julia",
+    label: "Julia",
+    aliases: ["jl", "jldoctest", "julia-repl"],
+    load: () =>
+      import("react-syntax-highlighter/dist/esm/languages/prism/julia"),
+  },
+  {
+    id: "python",
+    label: "Python",
+    aliases: ["py", "python3"],
+    load: () =>
+      import("react-syntax-highlighter/dist/esm/languages/prism/python"),
+  },
+  {
+    id: "tsx",
+    label: "TypeScript",
+    aliases: ["ts", "typescript"],
+    load: () => import("react-syntax-highlighter/dist/esm/languages/prism/tsx"),
+  },
+  {
+    id: "jsx",
+    label: "JavaScript",
+    aliases: ["js", "javascript", "mjs", "cjs"],
+    load: () => import("react-syntax-highlighter/dist/esm/languages/prism/jsx"),
+  },
+  {
+    id: "bash",
+    label: "Bash",
+    aliases: ["sh", "shell", "zsh", "console"],
+    load: () =>
+      import("react-syntax-highlighter/dist/esm/languages/prism/bash"),
+  },
+  {
+    id: "toml",
+    label: "TOML",
+    aliases: [],
+    load: () =>
+      import("react-syntax-highlighter/dist/esm/languages/prism/toml"),
+  },
+  {
+    id: "json",
+    label: "JSON",
+    aliases: ["jsonc", "json5"],
+    load: () =>
+      import("react-syntax-highlighter/dist/esm/languages/prism/json"),
+  },
+  {
+    id: "yaml",
+    label: "YAML",
+    aliases: ["yml"],
+    load: () =>
+      import("react-syntax-highlighter/dist/esm/languages/prism/yaml"),
+  },
+  {
+    id: "cpp",
+    label: "C++",
+    aliases: ["c++", "cc", "cxx", "hpp"],
+    load: () => import("react-syntax-highlighter/dist/esm/languages/prism/cpp"),
+  },
+  {
+    id: "c",
+    label: "C",
+    aliases: ["h"],
+    load: () => import("react-syntax-highlighter/dist/esm/languages/prism/c"),
+  },
+];
+
+const loadingLanguages = new Map<string, Promise<void>>();
+const loadedLanguages = new Set<string>();
+
+function findLanguage(name: string | undefined): CodeLanguage | undefined {
+  if (!name) return undefined;
+  const key = name.toLowerCase();
+  return CODE_LANGUAGES.find((l) => l.id === key || l.aliases.includes(key));
+}
+
+/**
+ * Maps a code fence language (e.g. `jl` or `c++`) to the name of its grammar.
+ * Unknown languages are returned lowercased.
+ */
+export function resolveLanguage(name: string | undefined): string {
+  return findLanguage(name)?.id ?? name?.toLowerCase() ?? "";
+}
+
+/**
+ * Human readable name of a code fence language, e.g. `Julia` for `jl`.
+ */
+export function getLanguageLabel(name: string | undefined): string {
+  return findLanguage(name)?.label ?? name ?? "";
+}
+
+export function isLanguageLoaded(name: string | undefined): boolean {
+  const language = findLanguage(name);
+  return !language || loadedLanguages.has(language.id);
+}
+
+/**
+ * Loads and registers the grammar of a language. Resolves once the grammar is
+ * available, and immediately for languages without a grammar.
+ */
+export function loadLanguage(name: string | undefined): Promise<void> {
+  const language = findLanguage(name);
+  if (!language) return Promise.resolve();
+
+  let loading = loadingLanguages.get(language.id);
+  if (!loading) {
+    loading = language.load().then((grammar) => {
+      SyntaxHighlighterPrism.registerLanguage(language.id, grammar.default);
+      loadedLanguages.add(language.id);
+    });
+    // Allow retrying if the chunk failed to load.
+    loading.catch(() => loadingLanguages.delete(language.id));
+    loadingLanguages.set(language.id, loading);
+  }
+  return loading;
+}
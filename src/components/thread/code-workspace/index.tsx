@@ -0,0 +1,195 @@
+import { useMemo, useState } from "react";
+import { Download, FileCode, Folder, FolderTree } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { cn, downloadFile } from "@/lib/utils";
+import { createZip } from "@/lib/zip";
+import { useStreamContext } from "@/providers/Stream";
+import { useArtifact } from "../artifact";
+import { extractCodeBlocks } from "../code-blocks";
+import { SyntaxHighlighter } from "../syntax-highlighter";
+import { TooltipIconButton } from "../tooltip-icon-button";
+import { selectClassName } from "@/components/config/styles";
+import {
+  buildFileTree,
+  buildWorkspace,
+  FileTreeNode,
+  getWorkspaceZipEntries,
+  WorkspaceFile,
+} from "./utils";
+
+function FileTree({
+  nodes,
+  selectedPath,
+  onSelect,
+  depth = 0,
+}: {
+  nodes: FileTreeNode[];
+  selectedPath: string | undefined;
+  onSelect: (path: string) => void;
+  depth?: number;
+}) {
+  return (
+    <ul className="flex flex-col">
+      {nodes.map((node) => (
+        <li key={node.path}>
+          {node.file ? (
+            <button
+              className={cn(
+                "flex w-full cursor-pointer items-center gap-1.5 rounded-sm py-1 pr-2 text-left text-sm hover:bg-gray-100",
+                node.path === selectedPath && "bg-gray-100 font-medium",
+              )}
+              style={{ paddingLeft: `${depth * 12 + 8}px` }}
+              onClick={() => onSelect(node.path)}
+            >
+              <FileCode className="size-4 shrink-0 text-gray-500" />
+              <span className="truncate">{node.name}</span>
+              {node.file.versions.length > 1 && (
+                <span className="ml-auto text-xs text-gray-400">
+                  v{node.file.versions.length}
+                </span>
+              )}
+            </button>
+          ) : (
+            <>
+              <div
+                className="flex items-center gap-1.5 py-1 pr-2 text-sm text-gray-600"
+                style={{ paddingLeft: `${depth * 12 + 8}px` }}
+              >
+                <Folder className="size-4 shrink-0" />
+                <span className="truncate">{node.name}</span>
+              </div>
+              <FileTree
+                nodes={node.children}
+                selectedPath={selectedPath}
+                onSelect={onSelect}
+                depth={depth + 1}
+              />
+            </>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function FileView({ file }: { file: WorkspaceFile }) {
+  const latest = file.versions.length - 1;
+  const [version, setVersion] = useState(latest);
+  // Follow new versions as they arrive, unless an older one was picked.
+  const [pinnedVersion, setPinnedVersion] = useState(false);
+  const shown = pinnedVersion ? Math.min(version, latest) : latest;
+  const code = file.versions[shown].code;
+
+  return (
+    <div className="flex min-w-0 flex-1 flex-col">
+      <div className="flex items-center justify-between gap-2 border-b px-4 py-2 text-sm">
+        <span className="truncate font-mono">{file.path}</span>
+        <div className="flex items-center gap-2">
+          {file.versions.length > 1 && (
+            <select
+              value={shown}
+              onChange={(e) => {
+                const value = Number(e.target.value);
+                setVersion(value);
+                setPinnedVersion(value !== latest);
+              }}
+              className={cn(selectClassName, "w-auto py-1")}
+              aria-label="Version"
+            >
+              {file.versions.map((_, idx) => (
+                <option
+                  key={idx}
+                  value={idx}
+                >
+                  Version {idx + 1}
+                  {idx === latest ? " (latest)" : ""}
+                </option>
+              ))}
+            </select>
+          )}
+          <TooltipIconButton
+            tooltip="Download file"
+            onClick={() =>
+              downloadFile(
+                file.path.split("/").pop() ?? file.path,
+                `${code}\n`,
+                "text/plain",
+              )
+            }
+          >
+            <Download />
+          </TooltipIconButton>
+        </div>
+      </div>
+      <div className="flex-1 overflow-auto bg-black text-white">
+        <SyntaxHighlighter
+          language={file.language}
+          showLineNumbers
+        >
+          {code}
+        </SyntaxHighlighter>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Header button opening a workspace with every code block of the thread as a
+ * file, which can be downloaded as a zip.
+ */
+export function CodeWorkspace() {
+  const stream = useStreamContext();
+  const [Artifact, { open, setOpen }] = useArtifact();
+  const [selectedPath, setSelectedPath] = useState<string>();
+
+  const files = useMemo(
+    () => buildWorkspace(extractCodeBlocks(stream.messages)),
+    [stream.messages],
+  );
+  const tree = useMemo(() => buildFileTree(files), [files]);
+
+  if (files.length === 0) return null;
+
+  const selected =
+    files.find((f) => f.path === selectedPath) ?? files[files.length - 1];
+
+  const handleDownload = () =>
+    downloadFile("workspace.zip", createZip(getWorkspaceZipEntries(files)));
+
+  return (
+    <>
+      <TooltipIconButton
+        size="lg"
+        className={cn("p-4", open && "bg-gray-100")}
+        tooltip="Code workspace"
+        variant="ghost"
+        onClick={() => setOpen((o) => !o)}
+      >
+        <FolderTree className="size-5" />
+      </TooltipIconButton>
+      <Artifact title={`Workspace (${files.length} files)`}>
+        <div className="absolute inset-0 flex">
+          <div className="flex w-56 shrink-0 flex-col gap-2 overflow-y-auto border-r p-2">
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={handleDownload}
+            >
+              <Download className="size-4" />
+              Download zip
+            </Button>
+            <FileTree
+              nodes={tree}
+              selectedPath={selected.path}
+              onSelect={setSelectedPath}
+            />
+          </div>
+          <FileView
+            key={selected.path}
+            file={selected}
+          />
+        </div>
+      </Artifact>
+    </>
+  );
+}
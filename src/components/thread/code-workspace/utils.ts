@@ -0,0 +1,194 @@
+import { countChanges, diffLines } from "@/lib/line-diff";
+import type { ZipEntry } from "@/lib/zip";
+import type { CodeBlockRef } from "../code-blocks";
+
+export interface WorkspaceFileVersion {
+  code: string;
+  messageId?: string;
+}
+
+export interface WorkspaceFile {
+  /** Path of the file, using `/` as separator. */
+  path: string;
+  language: string;
+  /** Every distinct version of the file, oldest first. */
+  versions: WorkspaceFileVersion[];
+}
+
+const FILE_EXTENSIONS: Record<string, string> = {
+  julia: "jl",
+  python: "py",
+  tsx: "ts",
+  bash: "sh",
+  toml: "toml",
+  json: "json",
+  yaml: "yml",
+  cpp: "cpp",
+  c: "c",
+};
+
+// Share of its lines a block without a file hint must have in common with a
+// snippet to be taken as a new version of it.
+const SNIPPET_REVISION_SIMILARITY = 0.5;
+
+// Modules built into Julia, which are not packages.
+const JULIA_BASE_MODULES = new Set(["Base", "Core", "Main"]);
+
+function normalizePath(path: string): string {
+  return path
+    .replace(/\\/g, "/")
+    .split("/")
+    .filter((segment) => segment && segment !== "." && segment !== "..")
+    .join("/");
+}
+
+function isRevisionOf(before: string, after: string): boolean {
+  const lines = diffLines(before, after);
+  const { added, removed } = countChanges(lines);
+  const equal = lines.length - added - removed;
+  return (
+    equal >= (equal + Math.max(added, removed)) * SNIPPET_REVISION_SIMILARITY
+  );
+}
+
+/**
+ * Collects the code blocks of a thread into files. Blocks with a
+ * `# file: name` hint become versions of that file. Other blocks are numbered
+ * automatically, e.g. `snippet-2.jl`, and become versions of the latest
+ * snippet in the same language which they mostly share their lines with.
+ */
+export function buildWorkspace(blocks: CodeBlockRef[]): WorkspaceFile[] {
+  const files = new Map<string, WorkspaceFile>();
+  const snippets: WorkspaceFile[] = [];
+
+  for (const block of blocks) {
+    const hinted = block.fileName && normalizePath(block.fileName);
+    const revised = hinted
+      ? undefined
+      : snippets.findLast(
+          (f) =>
+            f.language === block.language &&
+            isRevisionOf(f.versions.at(-1)?.code ?? "", block.code),
+        );
+    const path =
+      hinted ||
+      revised?.path ||
+      `snippet-${snippets.length + 1}.${FILE_EXTENSIONS[block.language] ?? "txt"}`;
+
+    let file = files.get(path);
+    if (!file) {
+      file = { path, language: block.language, versions: [] };
+      files.set(path, file);
+      if (!hinted) snippets.push(file);
+    }
+    // Repeating the same code does not create a new version.
+    if (file.versions.at(-1)?.code !== block.code) {
+      file.versions.push({ code: block.code, messageId: block.messageId });
+    }
+  }
+
+  return Array.from(files.values()).sort((a, b) =>
+    a.path.localeCompare(b.path),
+  );
+}
+
+/**
+ * Finds the packages loaded with `using` or `import` in the Julia files.
+ */
+export function detectJuliaPackages(files: WorkspaceFile[]): string[] {
+  const packages = new Set<string>();
+  for (const file of files) {
+    if (file.language !== "julia") continue;
+    const code = file.versions.at(-1)?.code ?? "";
+    for (const match of code.matchAll(/^\s*(?:using|import)\s+([^\n#]+)/gm)) {
+      // `using A, B` loads A and B, `using A: f`, `import A.B` and
+      // `import A as B` load A.
+      const modules = match[1].split(":")[0].split(",");
+      for (const module of modules) {
+        const name = module.trim().split(/[\s.]/)[0];
+        if (/^[A-Za-z_]\w*$/.test(name) && !JULIA_BASE_MODULES.has(name)) {
+          packages.add(name);
+        }
+      }
+    }
+  }
+  return Array.from(packages).sort();
+}
+
+/**
+ * Package UUIDs are not known in the browser, so no Project.toml is generated.
+ * Instead `setup.jl` adds the packages with Pkg, which creates the
+ * Project.toml with its `[deps]` section.
+ */
+function createJuliaSetupFile(packages: string[]): ZipEntry {
+  const list = packages.map((p) => `"${p}"`).join(", ");
+  return {
+    name: "setup.jl",
+    content: [
+      "# Generated by JutulGPT. Run `julia setup.jl` to create the project",
+      "# with the packages used in this workspace.",
+      "using Pkg",
+      "Pkg.activate(@__DIR__)",
+      `Pkg.add([${list}])`,
+      "",
+    ].join("\n"),
+  };
+}
+
+/**
+ * Returns the latest version of every file, plus a `setup.jl` creating the
+ * project when Julia packages are used and the workspace does not contain a
+ * Project.toml already.
+ */
+export function getWorkspaceZipEntries(files: WorkspaceFile[]): ZipEntry[] {
+  const entries = files.map((file) => ({
+    name: file.path,
+    content: `${file.versions.at(-1)?.code ?? ""}\n`,
+  }));
+  const packages = detectJuliaPackages(files);
+  const hasProject = files.some((f) => /(^|\/)Project\.toml$/.test(f.path));
+  if (packages.length > 0 && !hasProject) {
+    entries.push(createJuliaSetupFile(packages));
+  }
+  return entries;
+}
+
+export interface FileTreeNode {
+  name: string;
+  path: string;
+  children: FileTreeNode[];
+  file?: WorkspaceFile;
+}
+
+/**
+ * Nests the files into directories, listing directories before files.
+ */
+export function buildFileTree(files: WorkspaceFile[]): FileTreeNode[] {
+  const root: FileTreeNode = { name: "", path: "", children: [] };
+  for (const file of files) {
+    let node = root;
+    const segments = file.path.split("/");
+    segments.forEach((name, idx) => {
+      const path = segments.slice(0, idx + 1).join("/");
+      let child = node.children.find((c) => c.name === name && !c.file);
+      if (idx === segments.length - 1) {
+        node.children.push({ name, path, children: [], file });
+        return;
+      }
+      if (!child) {
+        child = { name, path, children: [] };
+        node.children.push(child);
+      }
+      node = child;
+    });
+  }
+
+  const sort = (nodes: FileTreeNode[]): FileTreeNode[] =>
+    nodes
+      .map((n) => ({ ...n, children: sort(n.children) }))
+      .sort(
+        (a, b) =>
+          Number(!!a.file) - Number(!!b.file) || a.name.localeCompare(b.name),
+      );
+  return sort(root.children);
+}
@@ -0,0 +1,128 @@
+import { useEffect, useRef, useState } from "react";
+import { useQueryState } from "nuqs";
+import { Download, FileCode, FileJson, FileText } from "lucide-react";
+import { toast } from "sonner";
+import { useStreamContext } from "@/providers/Stream";
+import { downloadFile } from "@/lib/utils";
+import {
+  createThreadExport,
+  getExportFilename,
+  threadToJson,
+  threadToMarkdown,
+  ThreadExportFormat,
+} from "@/lib/thread-export";
+import { getContentString } from "./utils";
+import { TooltipIconButton } from "./tooltip-icon-button";
+
+const EXPORT_FORMATS: {
+  format: ThreadExportFormat;
+  label: string;
+  icon: React.ReactNode;
+}[] = [
+  {
+    format: "markdown",
+    label: "Markdown",
+    icon: <FileText className="size-4" />,
+  },
+  { format: "json", label: "JSON", icon: <FileJson className="size-4" /> },
+  {
+    format: "html",
+    label: "HTML report",
+    icon: <FileCode className="size-4" />,
+  },
+];
+
+/**
+ * Header menu for downloading the current thread as Markdown, JSON or a
+ * standalone HTML report.
+ */
+export function ExportThread() {
+  const stream = useStreamContext();
+  const [threadId] = useQueryState("threadId");
+  const [assistantId] = useQueryState("assistantId");
+  const [open, setOpen] = useState(false);
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const close = (e: MouseEvent) => {
+      if (!ref.current?.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener("mousedown", close);
+    return () => document.removeEventListener("mousedown", close);
+  }, [open]);
+
+  const handleExport = async (format: ThreadExportFormat) => {
+    setOpen(false);
+    const thread = createThreadExport({
+      threadId,
+      assistantId: assistantId ?? "",
+      config: stream.threadConfig ?? stream.runnableConfig,
+      values: { ...stream.values, messages: stream.messages },
+    });
+    const firstHuman = stream.messages.find((m) => m.type === "human");
+    const title =
+      (firstHuman && getContentString(firstHuman.content).slice(0, 80)) ||
+      "JutulGPT conversation";
+    const filename = getExportFilename(thread, format);
+
+    try {
+      if (format === "json") {
+        downloadFile(filename, threadToJson(thread), "application/json");
+      } else if (format === "markdown") {
+        downloadFile(
+          filename,
+          threadToMarkdown(thread, title),
+          "text/markdown",
+        );
+      } else {
+        const { markdownToHtmlDocument } = await import(
+          "@/lib/thread-export-html"
+        );
+        const html = await markdownToHtmlDocument(
+          threadToMarkdown(thread, title),
+          title,
+        );
+        downloadFile(filename, html, "text/html");
+      }
+    } catch (e: any) {
+      console.error("Failed to export thread", e);
+      toast.error("Failed to export thread", {
+        description: e?.message,
+        richColors: true,
+        closeButton: true,
+      });
+    }
+  };
+
+  return (
+    <div
+      ref={ref}
+      className="relative"
+    >
+      <TooltipIconButton
+        size="lg"
+        className="p-4"
+        tooltip="Export thread"
+        variant="ghost"
+        onClick={() => setOpen((o) => !o)}
+      >
+        <Download className="size-5" />
+      </TooltipIconButton>
+      {open && (
+        <div className="absolute top-full right-0 z-50 mt-2 w-44 rounded-md border bg-white p-1 shadow-lg">
+          {EXPORT_FORMATS.map(({ format, label, icon }) => (
+            <button
+              key={format}
+              className="flex w-full cursor-pointer items-center gap-2 rounded-sm px-2 py-1.5 text-left text-sm hover:bg-gray-100"
+              onClick={() => handleExport(format)}
+            >
+              {icon}
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+import { ChangeEvent, useRef } from "react";
+import { LoaderCircle, Upload } from "lucide-react";
+import { useImportThread } from "@/hooks/use-import-thread";
+import { TooltipIconButton } from "../tooltip-icon-button";
+
+/**
+ * Opens a file picker for a thread JSON export, and recreates the thread on
+ * the current server.
+ */
+export function ImportThreadButton({
+  onImported,
+}: {
+  onImported?: () => void;
+}) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { importThread, importing } = useImportThread();
+
+  const handleChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    await importThread(file);
+    onImported?.();
+  };
+
+  return (
+    <>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/json,.json"
+        onChange={handleChange}
+        className="hidden"
+      />
+      <TooltipIconButton
+        size="lg"
+        className="p-4"
+        tooltip="Import thread"
+        variant="ghost"
+        disabled={importing}
+        onClick={() => fileInputRef.current?.click()}
+      >
+        {importing ? (
+          <LoaderCircle className="size-5 animate-spin" />
+        ) : (
+          <Upload className="size-5" />
+        )}
+      </TooltipIconButton>
+    </>
+  );
+}
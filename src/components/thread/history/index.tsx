@@ -1,9 +1,7 @@
 import { Button } from "@/components/ui/button";
 import { useThreads } from "@/providers/Thread";
-import { Thread } from "@langchain/langgraph-sdk";
-import { useEffect } from "react";
+import { useEffect, useMemo, useState } from "react";
 
-import { getContentString } from "../utils";
 import { useQueryState, parseAsBoolean } from "nuqs";
 import {
   Sheet,
@@ -12,52 +10,113 @@ import {
   SheetTitle,
 } from "@/components/ui/sheet";
 import { Skeleton } from "@/components/ui/skeleton";
-import { PanelRightOpen, PanelRightClose } from "lucide-react";
+import { PanelRightOpen, PanelRightClose, LoaderCircle } from "lucide-react";
 import { useMediaQuery } from "@/hooks/useMediaQuery";
+import { ThreadFilters } from "./thread-filters";
+import { ThreadItem } from "./thread-item";
+import { ImportThreadButton } from "./import-thread-button";
+import {
+  filterThreads,
+  getThreadAssistant,
+  groupThreadsByAssistant,
+  groupThreadsByDate,
+  hasClientFilters,
+  ThreadGroup,
+} from "./utils";
+
+// Distance from the bottom of the list at which the next page is loaded.
+const LOAD_MORE_THRESHOLD_PX = 200;
 
 function ThreadList({
-  threads,
+  groups,
   onThreadClick,
+  hasMore,
+  loadingMore,
+  searching,
+  onLoadMore,
 }: {
-  threads: Thread[];
+  groups: ThreadGroup[];
   onThreadClick?: (threadId: string) => void;
+  hasMore: boolean;
+  loadingMore: boolean;
+  /** Whether the pages are being loaded to search every thread. */
+  searching: boolean;
+  onLoadMore: () => void;
 }) {
   const [threadId, setThreadId] = useQueryState("threadId");
+  const [assistantId, setAssistantId] = useQueryState("assistantId");
 
   return (
-    <div className="flex h-full w-full flex-col items-start justify-start gap-2 overflow-y-scroll [&::-webkit-scrollbar]:w-1.5 [&::-webkit-scrollbar-thumb]:rounded-full [&::-webkit-scrollbar-thumb]:bg-gray-300 [&::-webkit-scrollbar-track]:bg-transparent">
-      {threads.map((t) => {
-        let itemText = t.thread_id;
+    <div
+      className="flex h-full w-full flex-col items-start justify-start gap-2 overflow-y-scroll [&::-webkit-scrollbar]:w-1.5 [&::-webkit-scrollbar-thumb]:rounded-full [&::-webkit-scrollbar-thumb]:bg-gray-300 [&::-webkit-scrollbar-track]:bg-transparent"
+      onScroll={(e) => {
+        const el = e.currentTarget;
         if (
-          typeof t.values === "object" &&
-          t.values &&
-          "messages" in t.values &&
-          Array.isArray(t.values.messages) &&
-          t.values.messages?.length > 0
+          hasMore &&
+          !loadingMore &&
+          !searching &&
+          el.scrollHeight - el.scrollTop - el.clientHeight <
+            LOAD_MORE_THRESHOLD_PX
         ) {
-          const firstMessage = t.values.messages[0];
-          itemText = getContentString(firstMessage.content);
+          onLoadMore();
         }
-        return (
-          <div
-            key={t.thread_id}
-            className="w-full px-1"
-          >
-            <Button
-              variant="ghost"
-              className="w-[280px] items-start justify-start text-left font-normal"
-              onClick={(e) => {
-                e.preventDefault();
+      }}
+    >
+      {groups.length === 0 && !hasMore && (
+        <p className="w-full px-4 text-sm text-gray-500">No threads found.</p>
+      )}
+      {groups.map((group) => (
+        <div
+          key={group.label}
+          className="flex w-full flex-col gap-1"
+        >
+          <h2 className="truncate px-4 pt-2 text-xs font-medium text-gray-500">
+            {group.label}
+          </h2>
+          {group.items.map(({ thread: t, match }) => (
+            <ThreadItem
+              key={t.thread_id}
+              thread={t}
+              match={match}
+              onSelect={() => {
                 onThreadClick?.(t.thread_id);
                 if (t.thread_id === threadId) return;
+                // Threads of other graphs are listed when grouping by
+                // assistant, and must be opened with their own assistant.
+                const threadAssistant = getThreadAssistant(t);
+                if (
+                  threadAssistant &&
+                  assistantId !== t.metadata?.graph_id &&
+                  assistantId !== t.metadata?.assistant_id
+                ) {
+                  setAssistantId(threadAssistant);
+                }
                 setThreadId(t.thread_id);
               }}
+            />
+          ))}
+        </div>
+      ))}
+      {searching ? (
+        <p className="flex w-full items-center justify-center gap-2 px-4 pb-2 text-sm text-gray-500">
+          <LoaderCircle className="size-4 animate-spin" />
+          Searching older threads...
+        </p>
+      ) : (
+        hasMore && (
+          <div className="flex w-full justify-center px-1 pb-2">
+            <Button
+              variant="ghost"
+              size="sm"
+              disabled={loadingMore}
+              onClick={onLoadMore}
             >
-              <p className="truncate text-ellipsis">{itemText}</p>
+              {loadingMore && <LoaderCircle className="size-4 animate-spin" />}
+              Load more
             </Button>
           </div>
-        );
-      })}
+        )
+      )}
     </div>
   );
 }
@@ -82,9 +141,22 @@ export default function ThreadHistory() {
     parseAsBoolean.withDefault(false),
   );
 
-  const { getThreads, threads, setThreads, threadsLoading, setThreadsLoading } =
-    useThreads();
+  const {
+    getThreads,
+    threads,
+    setThreads,
+    threadsLoading,
+    setThreadsLoading,
+    hasMoreThreads,
+    loadMoreThreads,
+    threadFilters,
+    setThreadFilters,
+    threadGrouping,
+    setThreadGrouping,
+  } = useThreads();
+  const [loadingMore, setLoadingMore] = useState(false);
 
+  // Refetch whenever the server side filters change.
   useEffect(() => {
     if (typeof window === "undefined") return;
     setThreadsLoading(true);
@@ -92,7 +164,54 @@ export default function ThreadHistory() {
       .then(setThreads)
       .catch(console.error)
       .finally(() => setThreadsLoading(false));
-  }, []);
+  }, [getThreads, setThreads, setThreadsLoading]);
+
+  // The search query and date range only apply to the loaded threads, so
+  // every page is loaded while they are set. Loading stops at the first
+  // failure, until the filters change.
+  const [searchFailed, setSearchFailed] = useState(false);
+  const searching =
+    hasClientFilters(threadFilters) && hasMoreThreads && !searchFailed;
+  useEffect(() => setSearchFailed(false), [threadFilters]);
+  useEffect(() => {
+    if (!searching || threadsLoading || loadingMore) return;
+    setLoadingMore(true);
+    loadMoreThreads()
+      .catch((e) => {
+        console.error(e);
+        setSearchFailed(true);
+      })
+      .finally(() => setLoadingMore(false));
+  }, [searching, threadsLoading, loadingMore, loadMoreThreads]);
+
+  const groups = useMemo(() => {
+    const items = filterThreads(threads, threadFilters);
+    return threadGrouping === "assistant"
+      ? groupThreadsByAssistant(items)
+      : groupThreadsByDate(items);
+  }, [threads, threadFilters, threadGrouping]);
+
+  const handleLoadMore = () => {
+    if (loadingMore) return;
+    setLoadingMore(true);
+    loadMoreThreads()
+      .catch(console.error)
+      .finally(() => setLoadingMore(false));
+  };
+
+  const threadList = (onThreadClick?: (threadId: string) => void) =>
+    threadsLoading ? (
+      <ThreadHistoryLoading />
+    ) : (
+      <ThreadList
+        groups={groups}
+        onThreadClick={onThreadClick}
+        hasMore={hasMoreThreads}
+        loadingMore={loadingMore}
+        searching={searching}
+        onLoadMore={handleLoadMore}
+      />
+    );
 
   return (
     <>
@@ -109,15 +228,20 @@ export default function ThreadHistory() {
               <PanelRightClose className="size-5" />
             )}
           </Button>
-          <h1 className="text-xl font-semibold tracking-tight">
-            Thread History
-          </h1>
+          <div className="flex items-center gap-1">
+            <h1 className="text-xl font-semibold tracking-tight">
+              Thread History
+            </h1>
+            <ImportThreadButton />
+          </div>
         </div>
-        {threadsLoading ? (
-          <ThreadHistoryLoading />
-        ) : (
-          <ThreadList threads={threads} />
-        )}
+        <ThreadFilters
+          filters={threadFilters}
+          onFiltersChange={setThreadFilters}
+          grouping={threadGrouping}
+          onGroupingChange={setThreadGrouping}
+        />
+        {threadList()}
       </div>
       <div className="lg:hidden">
         <Sheet
@@ -131,13 +255,19 @@ export default function ThreadHistory() {
             side="left"
             className="flex lg:hidden"
           >
-            <SheetHeader>
+            <SheetHeader className="flex-row items-center gap-1">
               <SheetTitle>Thread History</SheetTitle>
+              <ImportThreadButton
+                onImported={() => setChatHistoryOpen(false)}
+              />
             </SheetHeader>
-            <ThreadList
-              threads={threads}
-              onThreadClick={() => setChatHistoryOpen((o) => !o)}
+            <ThreadFilters
+              filters={threadFilters}
+              onFiltersChange={setThreadFilters}
+              grouping={threadGrouping}
+              onGroupingChange={setThreadGrouping}
             />
+            {threadList(() => setChatHistoryOpen((o) => !o))}
           </SheetContent>
         </Sheet>
       </div>
@@ -0,0 +1,185 @@
+import { useEffect, useState } from "react";
+import { ThreadStatus } from "@langchain/langgraph-sdk";
+import { Filter, Search, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { selectClassName } from "@/components/config/styles";
+import {
+  EMPTY_THREAD_FILTERS,
+  ThreadFilters as ThreadFiltersType,
+  ThreadGrouping,
+} from "@/providers/Thread";
+import { cn } from "@/lib/utils";
+import {
+  formatMetadataTags,
+  hasActiveFilters,
+  parseMetadataTags,
+} from "./utils";
+
+const THREAD_STATUSES: ThreadStatus[] = [
+  "idle",
+  "busy",
+  "interrupted",
+  "error",
+];
+
+export function ThreadFilters({
+  filters,
+  onFiltersChange,
+  grouping,
+  onGroupingChange,
+}: {
+  filters: ThreadFiltersType;
+  onFiltersChange: (filters: ThreadFiltersType) => void;
+  grouping: ThreadGrouping;
+  onGroupingChange: (grouping: ThreadGrouping) => void;
+}) {
+  const [showFilters, setShowFilters] = useState(false);
+  // Tags are only applied on blur or enter, since they trigger a new search.
+  const [tags, setTags] = useState(() => formatMetadataTags(filters.metadata));
+
+  useEffect(() => {
+    setTags(formatMetadataTags(filters.metadata));
+  }, [filters.metadata]);
+
+  const applyTags = () => {
+    const metadata = parseMetadataTags(tags);
+    if (formatMetadataTags(metadata) === formatMetadataTags(filters.metadata)) {
+      return;
+    }
+    onFiltersChange({ ...filters, metadata });
+  };
+
+  const active = hasActiveFilters(filters);
+
+  return (
+    <div className="flex w-full flex-col gap-3 px-4">
+      <div className="flex items-center gap-2">
+        <div className="relative flex-1">
+          <Search className="text-muted-foreground absolute top-1/2 left-2.5 size-4 -translate-y-1/2" />
+          <Input
+            value={filters.query}
+            onChange={(e) =>
+              onFiltersChange({ ...filters, query: e.target.value })
+            }
+            placeholder="Search threads..."
+            className="pl-8"
+          />
+        </div>
+        <Button
+          variant="ghost"
+          size="icon"
+          className={cn("shrink-0", showFilters && "bg-gray-100")}
+          onClick={() => setShowFilters((s) => !s)}
+          aria-label="Toggle filters"
+        >
+          <Filter className="size-4" />
+        </Button>
+      </div>
+      {showFilters && (
+        <div className="flex flex-col gap-3 rounded-md border border-gray-200 p-3">
+          <div className="flex flex-col gap-1.5">
+            <Label htmlFor="thread-group-by">Group by</Label>
+            <select
+              id="thread-group-by"
+              value={grouping}
+              onChange={(e) =>
+                onGroupingChange(e.target.value as ThreadGrouping)
+              }
+              className={selectClassName}
+            >
+              <option value="date">Date</option>
+              <option value="assistant">Assistant / graph (all graphs)</option>
+            </select>
+          </div>
+          <div className="flex flex-col gap-1.5">
+            <Label htmlFor="thread-filter-status">Status</Label>
+            <select
+              id="thread-filter-status"
+              value={filters.status ?? ""}
+              onChange={(e) =>
+                onFiltersChange({
+                  ...filters,
+                  status: (e.target.value || undefined) as
+                    | ThreadStatus
+                    | undefined,
+                })
+              }
+              className={selectClassName}
+            >
+              <option value="">Any</option>
+              {THREAD_STATUSES.map((status) => (
+                <option
+                  key={status}
+                  value={status}
+                >
+                  {status}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div className="flex flex-col gap-1.5">
+              <Label htmlFor="thread-filter-from">From</Label>
+              <Input
+                id="thread-filter-from"
+                type="date"
+                value={filters.from ?? ""}
+                max={filters.to}
+                onChange={(e) =>
+                  onFiltersChange({
+                    ...filters,
+                    from: e.target.value || undefined,
+                  })
+                }
+              />
+            </div>
+            <div className="flex flex-col gap-1.5">
+              <Label htmlFor="thread-filter-to">To</Label>
+              <Input
+                id="thread-filter-to"
+                type="date"
+                value={filters.to ?? ""}
+                min={filters.from}
+                onChange={(e) =>
+                  onFiltersChange({
+                    ...filters,
+                    to: e.target.value || undefined,
+                  })
+                }
+              />
+            </div>
+          </div>
+          <div className="flex flex-col gap-1.5">
+            <Label htmlFor="thread-filter-tags">Metadata tags</Label>
+            <Input
+              id="thread-filter-tags"
+              value={tags}
+              onChange={(e) => setTags(e.target.value)}
+              onBlur={applyTags}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") {
+                  e.preventDefault();
+                  applyTags();
+                }
+              }}
+              placeholder="key:value"
+            />
+          </div>
+        </div>
+      )}
+      {active && (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="self-start text-gray-600"
+          onClick={() => onFiltersChange(EMPTY_THREAD_FILTERS)}
+        >
+          <X className="size-4" />
+          Clear filters
+        </Button>
+      )}
+    </div>
+  );
+}
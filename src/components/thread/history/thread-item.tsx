@@ -0,0 +1,219 @@
+import { useEffect, useRef, useState } from "react";
+import { Thread } from "@langchain/langgraph-sdk";
+import {
+  Copy,
+  MoreHorizontal,
+  Pencil,
+  Pin,
+  PinOff,
+  Trash2,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+import { isThreadPinned, useThreadActions } from "@/hooks/use-thread-actions";
+import { getThreadTitle, ThreadSearchMatch } from "./utils";
+
+function MatchSnippet({ match }: { match: ThreadSearchMatch }) {
+  return (
+    <p className="w-full truncate text-xs text-gray-500">
+      {match.text.slice(0, match.start)}
+      <mark className="rounded-sm bg-yellow-200 text-gray-900">
+        {match.text.slice(match.start, match.end)}
+      </mark>
+      {match.text.slice(match.end)}
+    </p>
+  );
+}
+
+function MenuItem({
+  icon,
+  label,
+  onClick,
+  destructive,
+}: {
+  icon: React.ReactNode;
+  label: string;
+  onClick: () => void;
+  destructive?: boolean;
+}) {
+  return (
+    <button
+      className={cn(
+        "flex w-full cursor-pointer items-center gap-2 rounded-sm px-2 py-1.5 text-left text-sm hover:bg-gray-100",
+        destructive && "text-red-600",
+      )}
+      onClick={onClick}
+    >
+      {icon}
+      {label}
+    </button>
+  );
+}
+
+function RenameInput({
+  thread,
+  onDone,
+}: {
+  thread: Thread;
+  onDone: (title?: string) => void;
+}) {
+  const [title, setTitle] = useState(() => getThreadTitle(thread));
+
+  return (
+    <Input
+      autoFocus
+      value={title}
+      onChange={(e) => setTitle(e.target.value)}
+      onFocus={(e) => e.target.select()}
+      onBlur={() => onDone(title)}
+      onKeyDown={(e) => {
+        if (e.key === "Enter") {
+          e.preventDefault();
+          onDone(title);
+        } else if (e.key === "Escape") {
+          e.preventDefault();
+          onDone();
+        }
+      }}
+      className="h-9 w-[280px]"
+      aria-label="Thread title"
+    />
+  );
+}
+
+/**
+ * A thread in the history list, with a menu (also opened by right clicking)
+ * to rename, pin, duplicate or delete it.
+ */
+export function ThreadItem({
+  thread,
+  match,
+  onSelect,
+}: {
+  thread: Thread;
+  match?: ThreadSearchMatch;
+  onSelect: () => void;
+}) {
+  const [menuOpen, setMenuOpen] = useState(false);
+  const [renaming, setRenaming] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const { renameThread, togglePinThread, deleteThread, duplicateThread } =
+    useThreadActions();
+  const pinned = isThreadPinned(thread);
+  // Duplicates are shown before the server has created them.
+  const pending = thread.thread_id.startsWith("pending-");
+
+  useEffect(() => {
+    if (!menuOpen) return;
+    const close = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setMenuOpen(false);
+    };
+    document.addEventListener("mousedown", close);
+    return () => document.removeEventListener("mousedown", close);
+  }, [menuOpen]);
+
+  const runAction = (action: () => void) => {
+    setMenuOpen(false);
+    action();
+  };
+
+  if (renaming) {
+    return (
+      <div className="w-full px-1">
+        <RenameInput
+          thread={thread}
+          onDone={(title) => {
+            setRenaming(false);
+            if (title === undefined || title === getThreadTitle(thread)) return;
+            renameThread(thread, title);
+          }}
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div
+      ref={menuRef}
+      className="group relative flex w-full items-start px-1"
+      onContextMenu={(e) => {
+        if (pending) return;
+        e.preventDefault();
+        setMenuOpen(true);
+      }}
+    >
+      <Button
+        variant="ghost"
+        disabled={pending}
+        className={cn(
+          "w-[248px] items-start justify-start text-left font-normal",
+          match && "h-auto flex-col gap-0.5",
+        )}
+        onClick={(e) => {
+          e.preventDefault();
+          onSelect();
+        }}
+      >
+        <span className="flex w-full items-center gap-1.5">
+          {pinned && <Pin className="size-3.5 shrink-0 text-gray-500" />}
+          <p className="truncate text-ellipsis">{getThreadTitle(thread)}</p>
+        </span>
+        {match && <MatchSnippet match={match} />}
+      </Button>
+      {!pending && (
+        <Button
+          variant="ghost"
+          size="icon"
+          className={cn(
+            "shrink-0 opacity-0 group-hover:opacity-100 focus-visible:opacity-100",
+            menuOpen && "opacity-100",
+          )}
+          onClick={() => setMenuOpen((o) => !o)}
+          aria-label="Thread actions"
+        >
+          <MoreHorizontal className="size-4" />
+        </Button>
+      )}
+      {menuOpen && (
+        <div className="absolute top-full right-2 z-50 mt-1 w-44 rounded-md border bg-white p-1 shadow-lg">
+          <MenuItem
+            icon={<Pencil className="size-4" />}
+            label="Rename"
+            onClick={() => runAction(() => setRenaming(true))}
+          />
+          <MenuItem
+            icon={
+              pinned ? (
+                <PinOff className="size-4" />
+              ) : (
+                <Pin className="size-4" />
+              )
+            }
+            label={pinned ? "Unpin" : "Pin to top"}
+            onClick={() => runAction(() => togglePinThread(thread))}
+          />
+          <MenuItem
+            icon={<Copy className="size-4" />}
+            label="Duplicate"
+            onClick={() => runAction(() => duplicateThread(thread))}
+          />
+          <MenuItem
+            icon={<Trash2 className="size-4" />}
+            label="Delete"
+            destructive
+            onClick={() =>
+              runAction(() => {
+                if (
+                  window.confirm("Delete this thread? This cannot be undone.")
+                ) {
+                  deleteThread(thread);
+                }
+              })
+            }
+          />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,235 @@
+import type { Message, Thread } from "@langchain/langgraph-sdk";
+import type { ThreadFilters } from "@/providers/Thread";
+import {
+  getThreadCustomTitle,
+  isThreadPinned,
+} from "@/hooks/use-thread-actions";
+import { getContentString } from "../utils";
+
+const SNIPPET_CONTEXT = 40;
+
+export interface ThreadSearchMatch {
+  /** The snippet of message text surrounding the match. */
+  text: string;
+  /** Start and end of the match within `text`. */
+  start: number;
+  end: number;
+}
+
+export interface ThreadListItem {
+  thread: Thread;
+  match?: ThreadSearchMatch;
+}
+
+export function getThreadMessages(thread: Thread): Message[] {
+  if (
+    typeof thread.values === "object" &&
+    thread.values &&
+    "messages" in thread.values &&
+    Array.isArray(thread.values.messages)
+  ) {
+    return thread.values.messages;
+  }
+  return [];
+}
+
+/**
+ * Returns the text shown for a thread in the history: its custom title, or
+ * the content of its first message, falling back to the thread ID.
+ */
+export function getThreadTitle(thread: Thread): string {
+  const customTitle = getThreadCustomTitle(thread);
+  if (customTitle) return customTitle;
+  const [firstMessage] = getThreadMessages(thread);
+  return firstMessage
+    ? getContentString(firstMessage.content)
+    : thread.thread_id;
+}
+
+/**
+ * Finds the first message (or custom title) containing `query` (case-insensitive)
+ * and returns a snippet of the text around it.
+ */
+export function findThreadMatch(
+  thread: Thread,
+  query: string,
+): ThreadSearchMatch | undefined {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return undefined;
+
+  const texts = [
+    getThreadCustomTitle(thread) ?? "",
+    ...getThreadMessages(thread).map((m) =>
+      m?.content ? getContentString(m.content) : "",
+    ),
+  ];
+  for (const rawText of texts) {
+    const text = rawText.replace(/\s+/g, " ");
+    const idx = text.toLowerCase().indexOf(needle);
+    if (idx === -1) continue;
+
+    const from = Math.max(0, idx - SNIPPET_CONTEXT);
+    const prefix = from > 0 ? "..." : "";
+    return {
+      text: prefix + text.slice(from),
+      start: prefix.length + idx - from,
+      end: prefix.length + idx - from + needle.length,
+    };
+  }
+  return undefined;
+}
+
+function isWithinDateRange(thread: Thread, from?: string, to?: string) {
+  const updated = new Date(thread.updated_at);
+  if (from && updated < new Date(`${from}T00:00:00`)) return false;
+  if (to && updated > new Date(`${to}T23:59:59.999`)) return false;
+  return true;
+}
+
+/**
+ * Applies the client side filters (search query and date range) to the
+ * loaded threads, with pinned threads first. Status and metadata filters are
+ * applied by the server.
+ */
+export function filterThreads(
+  threads: Thread[],
+  filters: ThreadFilters,
+): ThreadListItem[] {
+  const hasQuery = !!filters.query.trim();
+  const sorted = [
+    ...threads.filter(isThreadPinned),
+    ...threads.filter((t) => !isThreadPinned(t)),
+  ];
+  return sorted.flatMap((thread) => {
+    if (!isWithinDateRange(thread, filters.from, filters.to)) return [];
+    if (!hasQuery) return [{ thread }];
+    const match = findThreadMatch(thread, filters.query);
+    return match ? [{ thread, match }] : [];
+  });
+}
+
+/**
+ * Whether any filter is set which the server can't apply, so that every page
+ * must be loaded to find all the matching threads.
+ */
+export function hasClientFilters(filters: ThreadFilters): boolean {
+  return !!filters.query.trim() || !!filters.from || !!filters.to;
+}
+
+export function hasActiveFilters(filters: ThreadFilters): boolean {
+  return (
+    !!filters.query.trim() ||
+    !!filters.status ||
+    !!filters.from ||
+    !!filters.to ||
+    Object.keys(filters.metadata).length > 0
+  );
+}
+
+/**
+ * Parses metadata tags written as `key:value` pairs separated by commas or
+ * whitespace. Values are parsed as JSON where possible, so `pinned:true`
+ * matches a boolean.
+ */
+export function parseMetadataTags(input: string): Record<string, unknown> {
+  const metadata: Record<string, unknown> = {};
+  for (const tag of input.split(/[\s,]+/)) {
+    const sep = tag.indexOf(":");
+    if (sep <= 0) continue;
+    const key = tag.slice(0, sep);
+    const raw = tag.slice(sep + 1);
+    try {
+      metadata[key] = JSON.parse(raw);
+    } catch {
+      metadata[key] = raw;
+    }
+  }
+  return metadata;
+}
+
+export function formatMetadataTags(metadata: Record<string, unknown>): string {
+  return Object.entries(metadata)
+    .map(
+      ([key, value]) =>
+        `${key}:${typeof value === "string" ? value : JSON.stringify(value)}`,
+    )
+    .join(" ");
+}
+
+export interface ThreadGroup {
+  label: string;
+  items: ThreadListItem[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function getDateGroupLabel(thread: Thread, now: Date): string {
+  const startOfToday = new Date(now);
+  startOfToday.setHours(0, 0, 0, 0);
+  const date = new Date(thread.updated_at || thread.created_at);
+  if (date >= startOfToday) return "Today";
+  if (date.getTime() >= startOfToday.getTime() - DAY_MS) return "Yesterday";
+  if (date.getTime() >= startOfToday.getTime() - 7 * DAY_MS) {
+    return "Previous 7 days";
+  }
+  return "Older";
+}
+
+/**
+ * Returns the graph (or, failing that, the assistant) a thread was created
+ * with, as stored in its metadata by the server.
+ */
+export function getThreadAssistant(thread: Thread): string | undefined {
+  const { graph_id, assistant_id } = thread.metadata ?? {};
+  if (typeof graph_id === "string") return graph_id;
+  if (typeof assistant_id === "string") return assistant_id;
+  return undefined;
+}
+
+function groupBy(
+  items: ThreadListItem[],
+  getLabel: (item: ThreadListItem) => string,
+): ThreadGroup[] {
+  const groups = new Map<string, ThreadListItem[]>();
+  for (const item of items) {
+    const label = getLabel(item);
+    groups.set(label, [...(groups.get(label) ?? []), item]);
+  }
+  return Array.from(groups, ([label, items]) => ({ label, items }));
+}
+
+const DATE_GROUP_ORDER = [
+  "Pinned",
+  "Today",
+  "Yesterday",
+  "Previous 7 days",
+  "Older",
+];
+
+/**
+ * Groups threads under "Today", "Yesterday", "Previous 7 days" and "Older"
+ * by when they were last updated. Pinned threads get a group of their own.
+ */
+export function groupThreadsByDate(
+  items: ThreadListItem[],
+  now = new Date(),
+): ThreadGroup[] {
+  return groupBy(items, ({ thread }) =>
+    isThreadPinned(thread) ? "Pinned" : getDateGroupLabel(thread, now),
+  ).sort(
+    (a, b) =>
+      DATE_GROUP_ORDER.indexOf(a.label) - DATE_GROUP_ORDER.indexOf(b.label),
+  );
+}
+
+/**
+ * Groups threads by the graph or assistant they belong to.
+ */
+export function groupThreadsByAssistant(
+  items: ThreadListItem[],
+): ThreadGroup[] {
+  return groupBy(
+    items,
+    ({ thread }) => getThreadAssistant(thread) ?? "Unknown assistant",
+  );
+}
@@ -1,4 +1,3 @@
-import { v4 as uuidv4 } from "uuid";
 import { ReactNode, useEffect, useRef } from "react";
 import { motion } from "framer-motion";
 import { cn } from "@/lib/utils";
@@ -8,15 +7,11 @@ import { Button } from "../ui/button";
 import { Checkpoint, Message } from "@langchain/langgraph-sdk";
 import { AssistantMessage, AssistantMessageLoading } from "./messages/ai";
 import { HumanMessage } from "./messages/human";
-import {
-  DO_NOT_RENDER_ID_PREFIX,
-  ensureToolCallsHaveResponses,
-} from "@/lib/ensure-tool-responses";
+import { DO_NOT_RENDER_ID_PREFIX } from "@/lib/ensure-tool-responses";
 import { LangGraphLogoSVG } from "../icons/langgraph";
 import { TooltipIconButton } from "./tooltip-icon-button";
 import {
   ArrowDown,
-  LoaderCircle,
   PanelRightOpen,
   PanelRightClose,
   SquarePen,
@@ -39,7 +34,20 @@ import {
   TooltipTrigger,
 } from "../ui/tooltip";
 import { RunnableConfigPanel } from "../config/runnable-config-panel";
+import { ThreadConfigIndicator } from "../config/thread-config-indicator";
+import { ExportThread } from "./export-thread";
+import { CodeWorkspace } from "./code-workspace";
+import { SourcesDrawer } from "./citations";
+import { CheckpointBrowser } from "./checkpoints";
+import { BranchTree } from "./branch-tree";
+import { ConnectionManager } from "@/components/connections/connection-manager";
+import { ReviewQueueButton } from "@/components/inbox";
+import { InterruptPolicyManager } from "@/components/interrupt-policies/policy-manager";
+import { RunTimeline } from "./run-timeline";
+import { PausedRunBanner, RunningControls } from "./run-controls";
+import { useRunControls } from "@/hooks/use-run-controls";
 import { useFileUpload } from "@/hooks/use-file-upload";
+import { useSendMessage } from "@/hooks/use-send-message";
 import { ContentBlocksPreview } from "./ContentBlocksPreview";
 import {
   useArtifactOpen,
@@ -114,7 +122,7 @@ function OpenGitHubRepo() {
 }
 
 export function Thread() {
-  const [artifactContext, setArtifactContext] = useArtifactContext();
+  const [, setArtifactContext] = useArtifactContext();
   const [artifactOpen, closeArtifact] = useArtifactOpen();
 
   const [threadId, _setThreadId] = useQueryState("threadId");
@@ -142,6 +150,8 @@ export function Thread() {
   const isLargeScreen = useMediaQuery("(min-width: 1024px)");
 
   const stream = useStreamContext();
+  const sendMessage = useSendMessage();
+  const runControls = useRunControls();
   const messages = stream.messages;
   const isLoading = stream.isLoading;
 
@@ -203,36 +213,10 @@ export function Thread() {
       return;
     setFirstTokenReceived(false);
 
-    const newHumanMessage: Message = {
-      id: uuidv4(),
-      type: "human",
-      content: [
-        ...(input.trim().length > 0 ? [{ type: "text", text: input }] : []),
-        ...contentBlocks,
-      ] as Message["content"],
-    };
-
-    const toolMessages = ensureToolCallsHaveResponses(stream.messages);
-
-    const context =
-      Object.keys(artifactContext).length > 0 ? artifactContext : undefined;
-
-    stream.submit(
-      { messages: [...toolMessages, newHumanMessage], context },
-      {
-        streamMode: ["values"],
-        config: stream.runnableConfig,
-        optimisticValues: (prev) => ({
-          ...prev,
-          context,
-          messages: [
-            ...(prev.messages ?? []),
-            ...toolMessages,
-            newHumanMessage,
-          ],
-        }),
-      },
-    );
+    sendMessage([
+      ...(input.trim().length > 0 ? [{ type: "text", text: input }] : []),
+      ...contentBlocks,
+    ] as Message["content"]);
 
     setInput("");
     setContentBlocks([]);
@@ -330,9 +314,14 @@ export function Thread() {
                 <RunnableConfigPanel
                   config={stream.runnableConfig}
                   onConfigChange={stream.setRunnableConfig}
+                  schema={stream.configSchema}
+                  schemaLoading={stream.configSchemaLoading}
+                  onReset={stream.resetRunnableConfig}
                   isOpen={configPanelOpen}
                   onToggle={() => setConfigPanelOpen(!configPanelOpen)}
                 />
+                <ConnectionManager />
+                <InterruptPolicyManager />
                 <OpenGitHubRepo />
               </div>
             </div>
@@ -381,12 +370,28 @@ export function Thread() {
                 <div className="flex items-center">
                   <OpenGitHubRepo />
                 </div>
+                <ThreadConfigIndicator
+                  threadConfig={stream.threadConfig}
+                  config={stream.runnableConfig}
+                  onRestore={stream.setRunnableConfig}
+                />
                 <RunnableConfigPanel
                   config={stream.runnableConfig}
                   onConfigChange={stream.setRunnableConfig}
+                  schema={stream.configSchema}
+                  schemaLoading={stream.configSchemaLoading}
+                  onReset={stream.resetRunnableConfig}
                   isOpen={configPanelOpen}
                   onToggle={() => setConfigPanelOpen(!configPanelOpen)}
                 />
+                <ConnectionManager />
+                <ReviewQueueButton />
+                <InterruptPolicyManager />
+                <BranchTree />
+                <CheckpointBrowser />
+                <SourcesDrawer />
+                <CodeWorkspace />
+                <ExportThread />
                 <TooltipIconButton
                   size="lg"
                   className="p-4"
@@ -440,6 +445,7 @@ export function Thread() {
                       handleRegenerate={handleRegenerate}
                     />
                   )}
+                  <RunTimeline />
                   {isLoading && !firstTokenReceived && (
                     <AssistantMessageLoading />
                   )}
@@ -467,6 +473,7 @@ export function Thread() {
                         : "border border-solid",
                     )}
                   >
+                    <PausedRunBanner controls={runControls} />
                     <form
                       onSubmit={handleSubmit}
                       className="mx-auto grid max-w-3xl grid-rows-[1fr_auto] gap-2"
@@ -531,14 +538,7 @@ export function Thread() {
                           className="hidden"
                         />
                         {stream.isLoading ? (
-                          <Button
-                            key="stop"
-                            onClick={() => stream.stop()}
-                            className="ml-auto"
-                          >
-                            <LoaderCircle className="h-4 w-4 animate-spin" />
-                            Cancel
-                          </Button>
+                          <RunningControls controls={runControls} />
                         ) : (
                           <Button
                             type="submit"
@@ -6,9 +6,43 @@ import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
 import rehypeKatex from "rehype-katex";
 import remarkMath from "remark-math";
-import { FC, memo, useState } from "react";
-import { CheckIcon, CopyIcon } from "lucide-react";
+import { FC, memo, useEffect, useState } from "react";
+import {
+  CheckIcon,
+  CopyIcon,
+  Play,
+  SendHorizontal,
+  Square,
+  WrapText,
+  GitCompare,
+  History,
+} from "lucide-react";
 import { SyntaxHighlighter } from "@/components/thread/syntax-highlighter";
+import {
+  getLanguageLabel,
+  resolveLanguage,
+} from "@/components/thread/code-languages";
+import { ExecutionResultPanel } from "@/components/thread/code-execution";
+import { useCodeBlockActions } from "@/hooks/use-code-block-actions";
+import { useCodeDiff } from "@/hooks/use-code-diff";
+import {
+  CitationFootnotes,
+  CitationMarker,
+  CitationsProvider,
+} from "@/components/thread/citations";
+import {
+  CITATION_HREF_PREFIX,
+  linkCitationMarkers,
+} from "@/components/thread/citations/utils";
+import type { RetrievedDocument } from "@/components/thread/messages/tool-results/utils";
+import { useCodeExecution } from "@/hooks/use-code-execution";
+import { useSendMessage } from "@/hooks/use-send-message";
+import { useStreamContext } from "@/providers/Stream";
+import {
+  formatExecutionReport,
+  isExecutableLanguage,
+} from "@/lib/code-execution";
+import { Button } from "@/components/ui/button";
 
 import { TooltipIconButton } from "@/components/thread/tooltip-icon-button";
 import { cn } from "@/lib/utils";
@@ -18,6 +52,14 @@ import "katex/dist/katex.min.css";
 interface CodeHeaderProps {
   language?: string;
   code: string;
+  wrapLines?: boolean;
+  onToggleWrap?: () => void;
+  onDiffPrevious?: () => void;
+  compareSelected?: boolean;
+  onCompare?: () => void;
+  isRunning?: boolean;
+  onRun?: () => void;
+  onCancel?: () => void;
 }
 
 const useCopyToClipboard = ({
@@ -39,7 +81,18 @@ const useCopyToClipboard = ({
   return { isCopied, copyToClipboard };
 };
 
-const CodeHeader: FC<CodeHeaderProps> = ({ language, code }) => {
+const CodeHeader: FC<CodeHeaderProps> = ({
+  language,
+  code,
+  wrapLines,
+  onToggleWrap,
+  onDiffPrevious,
+  compareSelected,
+  onCompare,
+  isRunning,
+  onRun,
+  onCancel,
+}) => {
   const { isCopied, copyToClipboard } = useCopyToClipboard();
   const onCopy = () => {
     if (!code || isCopied) return;
@@ -48,18 +101,140 @@ const CodeHeader: FC<CodeHeaderProps> = ({ language, code }) => {
 
   return (
     <div className="flex items-center justify-between gap-4 rounded-t-lg bg-zinc-900 px-4 py-2 text-sm font-semibold text-white">
-      <span className="lowercase [&>span]:text-xs">{language}</span>
-      <TooltipIconButton
-        tooltip="Copy"
-        onClick={onCopy}
-      >
-        {!isCopied && <CopyIcon />}
-        {isCopied && <CheckIcon />}
-      </TooltipIconButton>
+      <span className="[&>span]:text-xs">{getLanguageLabel(language)}</span>
+      <div className="flex items-center gap-2">
+        {onDiffPrevious && (
+          <TooltipIconButton
+            tooltip="Diff with previous version"
+            onClick={onDiffPrevious}
+          >
+            <History />
+          </TooltipIconButton>
+        )}
+        {onCompare && (
+          <TooltipIconButton
+            tooltip={
+              compareSelected ? "Cancel comparison" : "Select to compare"
+            }
+            onClick={onCompare}
+            className={cn(compareSelected && "bg-zinc-700")}
+          >
+            <GitCompare />
+          </TooltipIconButton>
+        )}
+        {onToggleWrap && (
+          <TooltipIconButton
+            tooltip={wrapLines ? "Don't wrap lines" : "Wrap lines"}
+            onClick={onToggleWrap}
+            className={cn(wrapLines && "bg-zinc-700")}
+          >
+            <WrapText />
+          </TooltipIconButton>
+        )}
+        {onRun && !isRunning && (
+          <TooltipIconButton
+            tooltip="Run"
+            onClick={onRun}
+          >
+            <Play />
+          </TooltipIconButton>
+        )}
+        {onCancel && isRunning && (
+          <TooltipIconButton
+            tooltip="Stop"
+            onClick={onCancel}
+          >
+            <Square />
+          </TooltipIconButton>
+        )}
+        <TooltipIconButton
+          tooltip="Copy"
+          onClick={onCopy}
+        >
+          {!isCopied && <CopyIcon />}
+          {isCopied && <CheckIcon />}
+        </TooltipIconButton>
+      </div>
     </div>
   );
 };
 
+const CodeBlock: FC<{
+  language: string;
+  code: string;
+  className?: string;
+}> = ({ language, code, className }) => {
+  const { result, run, cancel, isRunning } = useCodeExecution();
+  const languageId = resolveLanguage(language);
+  const executable = useCodeBlockActions() && isExecutableLanguage(languageId);
+  const [wrapLines, setWrapLines] = useState(false);
+  const codeDiff = useCodeDiff();
+  const block = { language, code };
+  const previousVersion = codeDiff?.getPreviousVersion(block);
+  const stream = useStreamContext();
+  const sendMessage = useSendMessage();
+  const [reportSent, setReportSent] = useState(false);
+
+  // Every new run can be reported once.
+  useEffect(() => setReportSent(false), [result?.startedAt]);
+
+  const canReport =
+    !!result && (result.status === "success" || result.status === "error");
+
+  const handleSendReport = () => {
+    if (!result || !canReport) return;
+    sendMessage(formatExecutionReport(code, languageId, result));
+    setReportSent(true);
+  };
+
+  return (
+    <>
+      <CodeHeader
+        language={language}
+        code={code}
+        wrapLines={wrapLines}
+        onToggleWrap={() => setWrapLines((w) => !w)}
+        onDiffPrevious={
+          codeDiff && previousVersion
+            ? () => codeDiff.openDiff(previousVersion, block)
+            : undefined
+        }
+        compareSelected={codeDiff?.selected?.code === code}
+        onCompare={codeDiff ? () => codeDiff.toggleSelected(block) : undefined}
+        isRunning={isRunning}
+        onRun={executable ? () => run(code, languageId) : undefined}
+        onCancel={executable ? cancel : undefined}
+      />
+      <SyntaxHighlighter
+        language={language}
+        className={className}
+        showLineNumbers={code.includes("\n")}
+        wrapLongLines={wrapLines}
+      >
+        {code}
+      </SyntaxHighlighter>
+      {result && (
+        <ExecutionResultPanel
+          result={result}
+          actions={
+            canReport && (
+              <Button
+                size="sm"
+                variant="secondary"
+                disabled={reportSent || stream.isLoading}
+                onClick={handleSendReport}
+              >
+                <SendHorizontal />
+                {reportSent ? "Sent to agent" : "Send to agent"}
+              </Button>
+            )
+          }
+        />
+      )}
+    </>
+  );
+};
+
 const defaultComponents: any = {
   h1: ({ className, ...props }: { className?: string }) => (
     <h1
@@ -118,15 +293,20 @@ const defaultComponents: any = {
       {...props}
     />
   ),
-  a: ({ className, ...props }: { className?: string }) => (
-    <a
-      className={cn(
-        "text-primary font-medium underline underline-offset-4",
-        className,
-      )}
-      {...props}
-    />
-  ),
+  a: ({ className, ...props }: { className?: string; href?: string }) =>
+    props.href?.startsWith(CITATION_HREF_PREFIX) ? (
+      <CitationMarker
+        index={Number(props.href.slice(CITATION_HREF_PREFIX.length))}
+      />
+    ) : (
+      <a
+        className={cn(
+          "text-primary font-medium underline underline-offset-4",
+          className,
+        )}
+        {...props}
+      />
+    ),
   blockquote: ({ className, ...props }: { className?: string }) => (
     <blockquote
       className={cn("border-l-2 pl-6 italic", className)}
@@ -210,25 +390,18 @@ const defaultComponents: any = {
     className?: string;
     children: React.ReactNode;
   }) => {
-    const match = /language-(\w+)/.exec(className || "");
+    const match = /language-([\w+#-]+)/.exec(className || "");
 
     if (match) {
       const language = match[1];
       const code = String(children).replace(/\n$/, "");
 
       return (
-        <>
-          <CodeHeader
-            language={language}
-            code={code}
-          />
-          <SyntaxHighlighter
-            language={language}
-            className={className}
-          >
-            {code}
-          </SyntaxHighlighter>
-        </>
+        <CodeBlock
+          language={language}
+          code={code}
+          className={className}
+        />
       );
     }
 
@@ -243,17 +416,25 @@ const defaultComponents: any = {
   },
 };
 
-const MarkdownTextImpl: FC<{ children: string }> = ({ children }) => {
+const MarkdownTextImpl: FC<{
+  children: string;
+  /** Retrieved documents that `[n]` markers in the text refer to. */
+  citations?: RetrievedDocument[];
+}> = ({ children, citations = [] }) => {
+  const text = linkCitationMarkers(children, citations.length);
   return (
-    <div className="markdown-content">
-      <ReactMarkdown
-        remarkPlugins={[remarkGfm, remarkMath]}
-        rehypePlugins={[rehypeKatex]}
-        components={defaultComponents}
-      >
-        {children}
-      </ReactMarkdown>
-    </div>
+    <CitationsProvider documents={citations}>
+      <div className="markdown-content">
+        <ReactMarkdown
+          remarkPlugins={[remarkGfm, remarkMath]}
+          rehypePlugins={[rehypeKatex]}
+          components={defaultComponents}
+        >
+          {text}
+        </ReactMarkdown>
+        <CitationFootnotes />
+      </div>
+    </CitationsProvider>
   );
 };
 
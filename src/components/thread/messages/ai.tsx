@@ -9,11 +9,18 @@ import { cn } from "@/lib/utils";
 import { ToolCalls, ToolResult } from "./tool-calls";
 import { MessageContentComplex } from "@langchain/core/messages";
 import { Fragment } from "react/jsx-runtime";
-import { isAgentInboxInterruptSchema } from "@/lib/agent-inbox-interrupt";
+import {
+  getHumanInterruptEntries,
+  HumanInterruptEntry,
+  isAgentInboxInterruptSchema,
+} from "@/lib/agent-inbox-interrupt";
 import { ThreadView } from "../agent-inbox";
 import { useQueryState, parseAsBoolean } from "nuqs";
 import { GenericInterruptView } from "./generic-interrupt";
+import { AutoDecisions } from "./auto-decisions";
 import { useArtifact } from "../artifact";
+import { getCitedDocuments } from "../citations/utils";
+import { useMemo } from "react";
 
 function CustomComponent({
   message,
@@ -69,12 +76,14 @@ function parseAnthropicStreamedToolCalls(
 
 interface InterruptProps {
   interruptValue?: unknown;
+  humanInterrupts: HumanInterruptEntry[];
   isLastMessage: boolean;
   hasNoAIOrToolMessages: boolean;
 }
 
 function Interrupt({
   interruptValue,
+  humanInterrupts,
   isLastMessage,
   hasNoAIOrToolMessages,
 }: InterruptProps) {
@@ -82,7 +91,7 @@ function Interrupt({
     <>
       {isAgentInboxInterruptSchema(interruptValue) &&
         (isLastMessage || hasNoAIOrToolMessages) && (
-          <ThreadView interrupt={interruptValue} />
+          <ThreadView interrupts={humanInterrupts} />
         )}
       {interruptValue &&
         !isAgentInboxInterruptSchema(interruptValue) &&
@@ -116,7 +125,25 @@ export function AssistantMessage({
     (m) => m.type === "ai" || m.type === "tool",
   );
   const meta = message ? thread.getMessagesMetadata(message) : undefined;
+  const citations = useMemo(
+    () => getCitedDocuments(thread.messages, message?.id),
+    [thread.messages, message?.id],
+  );
   const threadInterrupt = thread.interrupt;
+  // The run may be waiting on several requests, across parallel tasks.
+  const humanInterrupts = useMemo(
+    () =>
+      threadInterrupt
+        ? getHumanInterruptEntries(
+            thread.history.at(-1)?.tasks.flatMap((t) => t.interrupts) ?? [],
+          )
+        : [],
+    [threadInterrupt, thread.history],
+  );
+  const autoDecisions = useMemo(
+    () => thread.autoDecisionLog.filter((e) => e.messageId === message?.id),
+    [thread.autoDecisionLog, message?.id],
+  );
 
   const parentCheckpoint = meta?.firstSeenState?.parent_checkpoint;
   const anthropicStreamedToolCalls = Array.isArray(content)
@@ -146,8 +173,10 @@ export function AssistantMessage({
         {isToolResult ? (
           <>
             <ToolResult message={message} />
+            <AutoDecisions entries={autoDecisions} />
             <Interrupt
               interruptValue={threadInterrupt?.value}
+              humanInterrupts={humanInterrupts}
               isLastMessage={isLastMessage}
               hasNoAIOrToolMessages={hasNoAIOrToolMessages}
             />
@@ -156,7 +185,9 @@ export function AssistantMessage({
           <>
             {contentString.length > 0 && (
               <div className="py-1">
-                <MarkdownText>{contentString}</MarkdownText>
+                <MarkdownText citations={citations}>
+                  {contentString}
+                </MarkdownText>
               </div>
             )}
 
@@ -180,8 +211,10 @@ export function AssistantMessage({
                 thread={thread}
               />
             )}
+            <AutoDecisions entries={autoDecisions} />
             <Interrupt
               interruptValue={threadInterrupt?.value}
+              humanInterrupts={humanInterrupts}
               isLastMessage={isLastMessage}
               hasNoAIOrToolMessages={hasNoAIOrToolMessages}
             />
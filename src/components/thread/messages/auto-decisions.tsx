@@ -0,0 +1,77 @@
+import { useState } from "react";
+import {
+  ChevronDown,
+  ChevronRight,
+  ShieldCheck,
+  ShieldOff,
+} from "lucide-react";
+import {
+  AutoDecisionLogEntry,
+  formatInterruptPolicyRule,
+} from "@/lib/interrupt-policies";
+
+function AutoDecisionRow({ entry }: { entry: AutoDecisionLogEntry }) {
+  const [expanded, setExpanded] = useState(false);
+  const accepted = entry.decision === "accept";
+
+  return (
+    <li className="flex flex-col gap-1">
+      <button
+        type="button"
+        className="flex w-full cursor-pointer items-center gap-2 text-left text-xs text-gray-600"
+        onClick={() => setExpanded((e) => !e)}
+      >
+        {expanded ? (
+          <ChevronDown className="size-3 shrink-0" />
+        ) : (
+          <ChevronRight className="size-3 shrink-0" />
+        )}
+        {accepted ? (
+          <ShieldCheck className="size-4 shrink-0 text-green-600" />
+        ) : (
+          <ShieldOff className="size-4 shrink-0 text-gray-500" />
+        )}
+        <span>
+          <span className="font-mono font-medium text-gray-900">
+            {entry.action}
+          </span>{" "}
+          {accepted ? "auto-accepted" : "auto-ignored"} by rule{" "}
+          <span className="font-mono">
+            {formatInterruptPolicyRule(entry.rule)}
+          </span>
+        </span>
+        <span className="ml-auto shrink-0 text-gray-400">
+          {new Date(entry.decidedAt).toLocaleTimeString()}
+        </span>
+      </button>
+      {expanded && (
+        <pre className="ml-5 max-h-48 overflow-auto rounded bg-gray-50 p-2 text-xs whitespace-pre-wrap">
+          {JSON.stringify(entry.args, null, 2)}
+        </pre>
+      )}
+    </li>
+  );
+}
+
+/**
+ * The interrupts which were answered by interrupt policies after a message,
+ * so the thread keeps a record of every decision taken without review.
+ */
+export function AutoDecisions({
+  entries,
+}: {
+  entries: AutoDecisionLogEntry[];
+}) {
+  if (entries.length === 0) return null;
+
+  return (
+    <ul className="flex flex-col gap-1 rounded-lg border border-dashed border-gray-300 px-3 py-2">
+      {entries.map((entry) => (
+        <AutoDecisionRow
+          key={entry.id}
+          entry={entry}
+        />
+      ))}
+    </ul>
+  );
+}
@@ -1,6 +1,7 @@
 import { useState } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import { ChevronDown, ChevronUp } from "lucide-react";
+import { InterruptResponseComposer } from "./interrupt-response-composer";
 
 function isComplexValue(value: any): boolean {
   return Array.isArray(value) || (typeof value === "object" && value !== null);
@@ -124,6 +125,7 @@ export function GenericInterruptView({
           </motion.button>
         )}
       </motion.div>
+      <InterruptResponseComposer interrupt={interrupt} />
     </div>
   );
 }
@@ -0,0 +1,378 @@
+import { KeyboardEvent, useEffect, useMemo, useState } from "react";
+import type { Interrupt } from "@langchain/langgraph-sdk";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  getSchemaDefaults,
+  JSONSchema,
+  validateAgainstSchema,
+} from "@/lib/config-schema";
+import {
+  getInterruptId,
+  isAgentInboxInterruptSchema,
+} from "@/lib/agent-inbox-interrupt";
+import { cn } from "@/lib/utils";
+import { useStreamContext } from "@/providers/Stream";
+import { CodeEditor } from "../code-editor";
+
+type ComposerMode = "text" | "json";
+
+interface QuickReply {
+  label: string;
+  value: unknown;
+}
+
+function isRecord(value: unknown): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Reads the `options` of an interrupt, given as plain values or as
+ * `{ label, value }` objects.
+ */
+function getQuickReplies(options: unknown): QuickReply[] {
+  if (!Array.isArray(options)) return [];
+  return options.map((option) =>
+    isRecord(option) && "value" in option
+      ? { label: String(option.label ?? option.value), value: option.value }
+      : {
+          label: typeof option === "string" ? option : JSON.stringify(option),
+          value: option,
+        },
+  );
+}
+
+/**
+ * A response the run is waiting for. An interrupt whose value is a list asks
+ * for a response per item.
+ */
+interface ResponsePrompt {
+  interruptId?: string;
+  /** Whether the interrupt's value is a list, resumed with a list. */
+  inList: boolean;
+  schema?: JSONSchema;
+  quickReplies: QuickReply[];
+}
+
+interface ResponseDraft {
+  prompt: ResponsePrompt;
+  mode: ComposerMode;
+  text: string;
+  json: string;
+  /** Quick reply picked when several responses are sent together. */
+  reply?: QuickReply;
+}
+
+/**
+ * Lists the responses the pending interrupts ask for. Without interrupt IDs
+ * only one interrupt can be resumed, so only the latest is kept.
+ */
+function getResponsePrompts(interrupts: Interrupt[]): ResponsePrompt[] {
+  const resumable = interrupts.every((i) => getInterruptId(i))
+    ? interrupts
+    : interrupts.slice(-1);
+
+  return resumable.flatMap((interrupt) => {
+    const inList = Array.isArray(interrupt.value);
+    const values: unknown[] = inList
+      ? (interrupt.value as unknown[])
+      : [interrupt.value];
+    return values.map((value) => {
+      const fields = isRecord(value) ? value : {};
+      return {
+        interruptId: getInterruptId(interrupt),
+        inList,
+        schema: isRecord(fields.schema)
+          ? (fields.schema as JSONSchema)
+          : undefined,
+        quickReplies: getQuickReplies(fields.options),
+      };
+    });
+  });
+}
+
+/**
+ * Builds the `resume` value from a response per prompt, in the same order.
+ * When several interrupts are pending the values are keyed by interrupt ID,
+ * so that each reaches the right interrupt.
+ */
+function buildResumeValue(
+  prompts: ResponsePrompt[],
+  responses: unknown[],
+): unknown {
+  const byInterrupt = new Map<string | undefined, unknown[]>();
+  prompts.forEach((prompt, idx) => {
+    const values = byInterrupt.get(prompt.interruptId) ?? [];
+    byInterrupt.set(prompt.interruptId, [...values, responses[idx]]);
+  });
+  const values = Array.from(byInterrupt, ([id, values]) => {
+    const inList = prompts.find((p) => p.interruptId === id)?.inList;
+    return [id, inList ? values : values[0]] as const;
+  });
+  return values.length === 1 ? values[0][1] : Object.fromEntries(values);
+}
+
+function getInitialJson(schema: JSONSchema | undefined): string {
+  if (schema?.type !== "object") return "";
+  return JSON.stringify(getSchemaDefaults(schema), null, 2);
+}
+
+function createDraft(prompt: ResponsePrompt): ResponseDraft {
+  return {
+    prompt,
+    mode: prompt.schema ? "json" : "text",
+    text: "",
+    json: getInitialJson(prompt.schema),
+  };
+}
+
+/**
+ * Parses the JSON of a response, returning the value or the errors which
+ * keep it from being sent.
+ */
+function parseJsonResponse(
+  text: string,
+  schema: JSONSchema | undefined,
+): { value?: unknown; errors: string[] } {
+  if (!text.trim()) return { errors: ["Enter a JSON value."] };
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch (e: any) {
+    return { errors: [e?.message ?? "Invalid JSON."] };
+  }
+  return { value, errors: schema ? validateAgainstSchema(value, schema) : [] };
+}
+
+function getDraftResponse(draft: ResponseDraft): {
+  value?: unknown;
+  errors: string[];
+} {
+  if (draft.reply) return { value: draft.reply.value, errors: [] };
+  if (draft.mode === "json") {
+    return parseJsonResponse(draft.json, draft.prompt.schema);
+  }
+  return draft.text.trim()
+    ? { value: draft.text, errors: [] }
+    : { errors: ["Enter a response."] };
+}
+
+function ResponseField({
+  draft,
+  onChange,
+  onQuickReply,
+  onKeyDown,
+  disabled,
+}: {
+  draft: ResponseDraft;
+  onChange: (update: Partial<ResponseDraft>) => void;
+  onQuickReply: (reply: QuickReply) => void;
+  onKeyDown: (e: KeyboardEvent) => void;
+  disabled: boolean;
+}) {
+  const { schema, quickReplies } = draft.prompt;
+  const jsonErrors = useMemo(
+    () =>
+      draft.mode === "json" && draft.json.trim()
+        ? parseJsonResponse(draft.json, schema).errors
+        : [],
+    [draft.mode, draft.json, schema],
+  );
+
+  return (
+    <>
+      {quickReplies.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          {quickReplies.map((reply, idx) => (
+            <Button
+              key={idx}
+              size="sm"
+              variant="outline"
+              className={cn(draft.reply === reply && "bg-gray-100")}
+              disabled={disabled}
+              onClick={() => onQuickReply(reply)}
+            >
+              {reply.label}
+            </Button>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-center gap-0">
+        {(["text", "json"] as const).map((m) => (
+          <Button
+            key={m}
+            size="sm"
+            variant="outline"
+            className={cn(
+              m === "text"
+                ? "rounded-r-none border-r-0"
+                : "rounded-l-none border-l-0",
+              draft.mode === m ? "bg-gray-100 text-black" : "bg-white",
+            )}
+            onClick={() => onChange({ mode: m, reply: undefined })}
+          >
+            {m === "text" ? "Text" : "JSON"}
+          </Button>
+        ))}
+        {schema && (
+          <span className="ml-3 text-xs text-gray-500">
+            JSON is checked against the interrupt's schema.
+          </span>
+        )}
+      </div>
+
+      {draft.mode === "text" ? (
+        <Textarea
+          value={draft.text}
+          onChange={(e) => onChange({ text: e.target.value, reply: undefined })}
+          onKeyDown={onKeyDown}
+          disabled={disabled}
+          rows={3}
+          placeholder="Your response here..."
+        />
+      ) : (
+        <div className="flex flex-col gap-1">
+          <CodeEditor
+            language="json"
+            value={draft.json}
+            onChange={(json) => onChange({ json, reply: undefined })}
+            onKeyDown={onKeyDown}
+            disabled={disabled}
+            invalid={jsonErrors.length > 0}
+          />
+          {jsonErrors.map((error, idx) => (
+            <p
+              key={idx}
+              className="text-xs text-red-600"
+            >
+              {error}
+            </p>
+          ))}
+        </div>
+      )}
+    </>
+  );
+}
+
+/**
+ * Answers the interrupts raised by custom `interrupt()` calls, resuming the
+ * run with free text, JSON validated against each interrupt's `schema`, or
+ * one of its `options`. Every pending interrupt, and every item of an
+ * interrupt whose value is a list, gets a response of its own.
+ */
+export function InterruptResponseComposer({
+  interrupt,
+}: {
+  interrupt: Record<string, any> | Record<string, any>[];
+}) {
+  const thread = useStreamContext();
+  const prompts = useMemo(() => {
+    const pending = (
+      thread.history.at(-1)?.tasks.flatMap((t) => t.interrupts) ?? []
+    ).filter((i) => !isAgentInboxInterruptSchema(i.value));
+    return getResponsePrompts(
+      pending.length > 0 ? pending : [{ value: interrupt, when: "during" }],
+    );
+  }, [thread.history, interrupt]);
+  const [drafts, setDrafts] = useState(() => prompts.map(createDraft));
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => setDrafts(prompts.map(createDraft)), [prompts]);
+
+  const responses = drafts.map(getDraftResponse);
+  const isBatch = drafts.length > 1;
+  const disabled = submitting || thread.isLoading;
+  const canSubmit =
+    drafts.length > 0 && responses.every((r) => r.errors.length === 0);
+
+  const updateDraft = (idx: number, update: Partial<ResponseDraft>) =>
+    setDrafts((prev) =>
+      prev.map((d, i) => (i === idx ? { ...d, ...update } : d)),
+    );
+
+  const resume = async (values: unknown[]) => {
+    setSubmitting(true);
+    try {
+      await thread.submit(
+        {},
+        {
+          command: {
+            resume: buildResumeValue(
+              drafts.map((d) => d.prompt),
+              values,
+            ),
+          },
+        },
+      );
+    } catch (e) {
+      console.error("Error resuming interrupt", e);
+      toast.error("Error", {
+        description: "Failed to submit response.",
+        richColors: true,
+        closeButton: true,
+        duration: 5000,
+      });
+    }
+    setSubmitting(false);
+  };
+
+  const handleSubmit = () => {
+    if (!canSubmit || disabled) return;
+    resume(responses.map((r) => r.value));
+  };
+
+  const handleKeyDown = (e: KeyboardEvent) => {
+    if ((e.metaKey || e.ctrlKey) && e.key === "Enter") {
+      e.preventDefault();
+      handleSubmit();
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-3 border-t border-gray-200 bg-white p-3">
+      {drafts.map((draft, idx) => (
+        <div
+          key={idx}
+          className={cn(
+            "flex flex-col gap-3",
+            isBatch && idx > 0 && "border-t border-gray-100 pt-3",
+          )}
+        >
+          {isBatch && (
+            <p className="text-xs font-medium text-gray-500">
+              Response {idx + 1} of {drafts.length}
+            </p>
+          )}
+          <ResponseField
+            draft={draft}
+            onChange={(update) => updateDraft(idx, update)}
+            onQuickReply={(reply) =>
+              // A single response is sent right away, otherwise the reply is
+              // kept until every response is ready.
+              isBatch
+                ? updateDraft(idx, {
+                    reply: draft.reply === reply ? undefined : reply,
+                  })
+                : resume([reply.value])
+            }
+            onKeyDown={handleKeyDown}
+            disabled={disabled}
+          />
+        </div>
+      ))}
+
+      <div className="flex items-center justify-end">
+        <Button
+          variant="brand"
+          size="sm"
+          disabled={!canSubmit || disabled}
+          onClick={handleSubmit}
+        >
+          Resume
+        </Button>
+      </div>
+    </div>
+  );
+}
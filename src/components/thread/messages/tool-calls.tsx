@@ -2,6 +2,8 @@ import { AIMessage, ToolMessage } from "@langchain/langgraph-sdk";
 import { useState } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import { ChevronDown, ChevronUp } from "lucide-react";
+import { getToolResultRenderer } from "./tool-results";
+import { getToolResultContent } from "./tool-results/utils";
 
 function isComplexValue(value: any): boolean {
   return Array.isArray(value) || (typeof value === "object" && value !== null);
@@ -65,7 +67,7 @@ export function ToolCalls({
   );
 }
 
-export function ToolResult({ message }: { message: ToolMessage }) {
+function DefaultToolResultContent({ message }: { message: ToolMessage }) {
   const [isExpanded, setIsExpanded] = useState(false);
 
   let parsedContent: any;
@@ -93,6 +95,84 @@ export function ToolResult({ message }: { message: ToolMessage }) {
         : contentLines.slice(0, 4).join("\n") + "\n..."
       : contentStr;
 
+  return (
+    <motion.div
+      className="min-w-full bg-gray-100"
+      initial={false}
+      animate={{ height: "auto" }}
+      transition={{ duration: 0.3 }}
+    >
+      <div className="p-3">
+        <AnimatePresence
+          mode="wait"
+          initial={false}
+        >
+          <motion.div
+            key={isExpanded ? "expanded" : "collapsed"}
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -20 }}
+            transition={{ duration: 0.2 }}
+          >
+            {isJsonContent ? (
+              <table className="min-w-full divide-y divide-gray-200">
+                <tbody className="divide-y divide-gray-200">
+                  {(Array.isArray(parsedContent)
+                    ? isExpanded
+                      ? parsedContent
+                      : parsedContent.slice(0, 5)
+                    : Object.entries(parsedContent)
+                  ).map((item, argIdx) => {
+                    const [key, value] = Array.isArray(parsedContent)
+                      ? [argIdx, item]
+                      : [item[0], item[1]];
+                    return (
+                      <tr key={argIdx}>
+                        <td className="px-4 py-2 text-sm font-medium whitespace-nowrap text-gray-900">
+                          {key}
+                        </td>
+                        <td className="px-4 py-2 text-sm text-gray-500">
+                          {isComplexValue(value) ? (
+                            <code className="rounded bg-gray-50 px-2 py-1 font-mono text-sm break-all">
+                              {JSON.stringify(value, null, 2)}
+                            </code>
+                          ) : (
+                            String(value)
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            ) : (
+              <code className="block text-sm">{displayedContent}</code>
+            )}
+          </motion.div>
+        </AnimatePresence>
+      </div>
+      {((shouldTruncate && !isJsonContent) ||
+        (isJsonContent &&
+          Array.isArray(parsedContent) &&
+          parsedContent.length > 5)) && (
+        <motion.button
+          onClick={() => setIsExpanded(!isExpanded)}
+          className="flex w-full cursor-pointer items-center justify-center border-t-[1px] border-gray-200 py-2 text-gray-500 transition-all duration-200 ease-in-out hover:bg-gray-50 hover:text-gray-600"
+          initial={{ scale: 1 }}
+          whileHover={{ scale: 1.02 }}
+          whileTap={{ scale: 0.98 }}
+        >
+          {isExpanded ? <ChevronUp /> : <ChevronDown />}
+        </motion.button>
+      )}
+    </motion.div>
+  );
+}
+
+export function ToolResult({ message }: { message: ToolMessage }) {
+  const renderer = getToolResultRenderer(message.name);
+  const data = renderer?.parse(getToolResultContent(message));
+
   return (
     <div className="mx-auto grid max-w-3xl grid-rows-[1fr_auto] gap-2">
       <div className="overflow-hidden rounded-lg border border-gray-200">
@@ -115,76 +195,13 @@ export function ToolResult({ message }: { message: ToolMessage }) {
             )}
           </div>
         </div>
-        <motion.div
-          className="min-w-full bg-gray-100"
-          initial={false}
-          animate={{ height: "auto" }}
-          transition={{ duration: 0.3 }}
-        >
-          <div className="p-3">
-            <AnimatePresence
-              mode="wait"
-              initial={false}
-            >
-              <motion.div
-                key={isExpanded ? "expanded" : "collapsed"}
-                initial={{ opacity: 0, y: 20 }}
-                animate={{ opacity: 1, y: 0 }}
-                exit={{ opacity: 0, y: -20 }}
-                transition={{ duration: 0.2 }}
-              >
-                {isJsonContent ? (
-                  <table className="min-w-full divide-y divide-gray-200">
-                    <tbody className="divide-y divide-gray-200">
-                      {(Array.isArray(parsedContent)
-                        ? isExpanded
-                          ? parsedContent
-                          : parsedContent.slice(0, 5)
-                        : Object.entries(parsedContent)
-                      ).map((item, argIdx) => {
-                        const [key, value] = Array.isArray(parsedContent)
-                          ? [argIdx, item]
-                          : [item[0], item[1]];
-                        return (
-                          <tr key={argIdx}>
-                            <td className="px-4 py-2 text-sm font-medium whitespace-nowrap text-gray-900">
-                              {key}
-                            </td>
-                            <td className="px-4 py-2 text-sm text-gray-500">
-                              {isComplexValue(value) ? (
-                                <code className="rounded bg-gray-50 px-2 py-1 font-mono text-sm break-all">
-                                  {JSON.stringify(value, null, 2)}
-                                </code>
-                              ) : (
-                                String(value)
-                              )}
-                            </td>
-                          </tr>
-                        );
-                      })}
-                    </tbody>
-                  </table>
-                ) : (
-                  <code className="block text-sm">{displayedContent}</code>
-                )}
-              </motion.div>
-            </AnimatePresence>
+        {renderer && data !== undefined ? (
+          <div className="bg-gray-100">
+            <renderer.Component data={data} />
           </div>
-          {((shouldTruncate && !isJsonContent) ||
-            (isJsonContent &&
-              Array.isArray(parsedContent) &&
-              parsedContent.length > 5)) && (
-            <motion.button
-              onClick={() => setIsExpanded(!isExpanded)}
-              className="flex w-full cursor-pointer items-center justify-center border-t-[1px] border-gray-200 py-2 text-gray-500 transition-all duration-200 ease-in-out hover:bg-gray-50 hover:text-gray-600"
-              initial={{ scale: 1 }}
-              whileHover={{ scale: 1.02 }}
-              whileTap={{ scale: 0.98 }}
-            >
-              {isExpanded ? <ChevronUp /> : <ChevronDown />}
-            </motion.button>
-          )}
-        </motion.div>
+        ) : (
+          <DefaultToolResultContent message={message} />
+        )}
       </div>
     </div>
   );
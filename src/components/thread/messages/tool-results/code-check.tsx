@@ -0,0 +1,89 @@
+import { CircleCheck, CircleX } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { CodeCheckResult } from "./utils";
+
+// Lines of code shown around each error.
+const CONTEXT_LINES = 2;
+
+function CodeExcerpt({ code, lines }: { code: string; lines: Set<number> }) {
+  const codeLines = code.split("\n");
+  const shown = codeLines
+    .map((_, idx) => idx + 1)
+    .filter((n) =>
+      [...lines].some((line) => Math.abs(line - n) <= CONTEXT_LINES),
+    );
+  if (shown.length === 0) return null;
+
+  return (
+    <pre className="overflow-x-auto rounded-md bg-black py-2 font-mono text-xs text-zinc-100">
+      {shown.map((n, idx) => (
+        <div
+          key={n}
+          className={cn(
+            "flex",
+            lines.has(n) && "bg-red-950/60 text-red-200",
+            idx > 0 && shown[idx - 1] !== n - 1 && "mt-2",
+          )}
+        >
+          <span className="w-10 shrink-0 pr-2 text-right text-zinc-500 select-none">
+            {n}
+          </span>
+          <span className="pr-4 whitespace-pre">{codeLines[n - 1]}</span>
+        </div>
+      ))}
+    </pre>
+  );
+}
+
+export function CodeCheckResultView({ data }: { data: CodeCheckResult }) {
+  const errorLines = new Set(
+    data.errors.flatMap((e) => (e.line !== undefined ? [e.line] : [])),
+  );
+
+  return (
+    <div className="flex flex-col gap-3 p-3">
+      <span
+        className={cn(
+          "flex w-fit items-center gap-1.5 rounded-full px-2.5 py-0.5 text-sm font-medium",
+          data.passed
+            ? "bg-green-100 text-green-800"
+            : "bg-red-100 text-red-800",
+        )}
+      >
+        {data.passed ? (
+          <CircleCheck className="size-4" />
+        ) : (
+          <CircleX className="size-4" />
+        )}
+        {data.passed
+          ? "Check passed"
+          : `Check failed (${data.errors.length} ${data.errors.length === 1 ? "error" : "errors"})`}
+      </span>
+      {data.errors.length > 0 && (
+        <ul className="flex flex-col gap-1 text-sm">
+          {data.errors.map((error, idx) => (
+            <li
+              key={idx}
+              className="flex gap-2"
+            >
+              <span className="w-20 shrink-0 font-mono text-xs leading-5 text-gray-500">
+                {error.line !== undefined
+                  ? `L${error.line}${error.column !== undefined ? `:${error.column}` : ""}`
+                  : "—"}
+              </span>
+              <span className="font-mono text-xs leading-5 break-all whitespace-pre-wrap text-red-800">
+                {error.message}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+      {data.code && errorLines.size > 0 && (
+        <CodeExcerpt
+          code={data.code}
+          lines={errorLines}
+        />
+      )}
+    </div>
+  );
+}
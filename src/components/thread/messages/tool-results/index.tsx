@@ -0,0 +1,59 @@
+import type { ComponentType } from "react";
+import { CodeCheckResultView } from "./code-check";
+import { PackageInstallResult } from "./package-install";
+import { RetrievalResult } from "./retrieval";
+import {
+  parseCodeCheckResult,
+  parseInstalledPackages,
+  parseRetrievedDocuments,
+} from "./utils";
+
+export interface ToolResultRenderer<T = any> {
+  /**
+   * Reads the tool output (parsed as JSON when possible). Returning
+   * `undefined` falls back to the default view, so unexpected output is
+   * still shown.
+   */
+  parse: (content: unknown) => T | undefined;
+  Component: ComponentType<{ data: T }>;
+}
+
+const renderers = new Map<string, ToolResultRenderer>();
+
+/**
+ * Registers a renderer for the results of the tools with the given names.
+ */
+export function registerToolResultRenderer<T>(
+  toolNames: string[],
+  renderer: ToolResultRenderer<T>,
+) {
+  for (const name of toolNames) renderers.set(name, renderer);
+}
+
+export function getToolResultRenderer(
+  toolName: string | undefined,
+): ToolResultRenderer | undefined {
+  return toolName ? renderers.get(toolName) : undefined;
+}
+
+export const RETRIEVAL_TOOL_NAMES = [
+  "retrieve_fimbul",
+  "retrieve_jutuldarcy",
+  "retrieve_jutuldarcy_docs",
+  "retrieve_function_documentation",
+];
+
+registerToolResultRenderer(RETRIEVAL_TOOL_NAMES, {
+  parse: parseRetrievedDocuments,
+  Component: RetrievalResult,
+});
+
+registerToolResultRenderer(["check_code", "run_linter", "check_julia_code"], {
+  parse: parseCodeCheckResult,
+  Component: CodeCheckResultView,
+});
+
+registerToolResultRenderer(["install_package", "install_packages"], {
+  parse: parseInstalledPackages,
+  Component: PackageInstallResult,
+});
@@ -0,0 +1,25 @@
+import { Package } from "lucide-react";
+import type { InstalledPackage } from "./utils";
+
+export function PackageInstallResult({ data }: { data: InstalledPackage[] }) {
+  return (
+    <ul className="flex flex-col divide-y divide-gray-200 p-3">
+      {data.map((pkg) => (
+        <li
+          key={pkg.name}
+          className="flex items-center justify-between gap-2 py-1.5 text-sm"
+        >
+          <span className="flex items-center gap-1.5 font-medium text-gray-900">
+            <Package className="size-4 text-gray-500" />
+            {pkg.name}
+          </span>
+          {pkg.version && (
+            <code className="rounded bg-gray-200 px-1.5 py-0.5 text-xs text-gray-700">
+              v{pkg.version}
+            </code>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,68 @@
+import { useState } from "react";
+import { FileText } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { RetrievedDocument } from "./utils";
+
+const SNIPPET_LENGTH = 280;
+
+function isUrl(source: string) {
+  return /^https?:\/\//.test(source);
+}
+
+function DocumentCard({ document }: { document: RetrievedDocument }) {
+  const [expanded, setExpanded] = useState(false);
+  const truncated = document.content.length > SNIPPET_LENGTH;
+
+  return (
+    <li className="rounded-md border border-gray-200 bg-white p-3">
+      <div className="flex items-start justify-between gap-2">
+        <div className="flex min-w-0 items-center gap-1.5 text-sm font-medium text-gray-900">
+          <FileText className="size-4 shrink-0 text-gray-500" />
+          {isUrl(document.source) ? (
+            <a
+              href={document.source}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="truncate hover:underline"
+            >
+              {document.title ?? document.source}
+            </a>
+          ) : (
+            <span className="truncate font-mono">
+              {document.title ?? document.source}
+            </span>
+          )}
+        </div>
+        {document.score !== undefined && (
+          <span className="shrink-0 rounded bg-gray-100 px-1.5 py-0.5 font-mono text-xs text-gray-600">
+            {document.score.toFixed(3)}
+          </span>
+        )}
+      </div>
+      <p
+        className={cn(
+          "mt-2 text-sm whitespace-pre-wrap text-gray-600",
+          truncated && "cursor-pointer",
+        )}
+        onClick={() => truncated && setExpanded((e) => !e)}
+      >
+        {truncated && !expanded
+          ? `${document.content.slice(0, SNIPPET_LENGTH)}...`
+          : document.content}
+      </p>
+    </li>
+  );
+}
+
+export function RetrievalResult({ data }: { data: RetrievedDocument[] }) {
+  return (
+    <ul className="flex flex-col gap-2 p-3">
+      {data.map((document, idx) => (
+        <DocumentCard
+          key={idx}
+          document={document}
+        />
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,274 @@
+import type { ToolMessage } from "@langchain/langgraph-sdk";
+import uniqBy from "lodash/uniqBy";
+
+export interface RetrievedDocument {
+  source: string;
+  content: string;
+  title?: string;
+  score?: number;
+}
+
+export interface CodeCheckError {
+  message: string;
+  line?: number;
+  column?: number;
+}
+
+export interface CodeCheckResult {
+  passed: boolean;
+  errors: CodeCheckError[];
+  /** The checked code, when the tool returns it. */
+  code?: string;
+}
+
+export interface InstalledPackage {
+  name: string;
+  version?: string;
+}
+
+/**
+ * Returns the content of a tool message, parsed as JSON when possible.
+ */
+export function getToolResultContent(message: ToolMessage): unknown {
+  const text =
+    typeof message.content === "string"
+      ? message.content
+      : message.content
+          .filter((c): c is { type: "text"; text: string } => c.type === "text")
+          .map((c) => c.text)
+          .join("\n");
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function firstOf<T>(
+  record: Record<string, any>,
+  keys: string[],
+  check: (value: unknown) => value is T,
+): T | undefined {
+  for (const key of keys) {
+    if (check(record[key])) return record[key];
+  }
+  return undefined;
+}
+
+const isString = (value: unknown): value is string =>
+  typeof value === "string" && value.length > 0;
+const isNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value);
+
+function toRetrievedDocument(value: unknown): RetrievedDocument | undefined {
+  if (!isRecord(value)) return undefined;
+  const metadata = isRecord(value.metadata) ? value.metadata : {};
+  const fields = { ...metadata, ...value };
+  const content = firstOf(
+    fields,
+    ["page_content", "content", "text", "snippet"],
+    isString,
+  );
+  if (!content) return undefined;
+  return {
+    content,
+    source:
+      firstOf(
+        fields,
+        ["source", "url", "file_path", "path", "file", "filename"],
+        isString,
+      ) ?? "Unknown source",
+    title: firstOf(fields, ["title", "name", "heading"], isString),
+    score: firstOf(
+      fields,
+      ["rerank_score", "relevance_score", "score", "similarity"],
+      isNumber,
+    ),
+  };
+}
+
+// Matches the `Source: ...` / `Score: ...` lines of text formatted results.
+const SOURCE_LINE_REGEX = /^\s*(?:source|file|url)\s*:\s*(.+)$/i;
+const SCORE_LINE_REGEX = /^\s*(?:rerank[ _]?)?score\s*:\s*([-\d.eE]+)\s*$/i;
+
+function parseRetrievedText(text: string): RetrievedDocument[] {
+  const sections = text
+    .split(/\n\s*-{3,}\s*\n|\n(?=\s*(?:source|file|url)\s*:)/i)
+    .map((s) => s.trim())
+    .filter(Boolean);
+
+  const documents: RetrievedDocument[] = [];
+  for (const section of sections) {
+    let source: string | undefined;
+    let score: number | undefined;
+    const content: string[] = [];
+    for (const line of section.split("\n")) {
+      const sourceMatch = !source && line.match(SOURCE_LINE_REGEX);
+      const scoreMatch = score === undefined && line.match(SCORE_LINE_REGEX);
+      if (sourceMatch) source = sourceMatch[1].trim();
+      else if (scoreMatch) score = Number(scoreMatch[1]);
+      else content.push(line);
+    }
+    if (!source) continue;
+    documents.push({
+      source,
+      score: Number.isFinite(score) ? score : undefined,
+      content: content.join("\n").trim(),
+    });
+  }
+  return documents;
+}
+
+/**
+ * Reads the documents from the output of a retrieval tool. Supports a list of
+ * LangChain documents (optionally wrapped in `{ documents }`), and text with a
+ * `Source:` line per document. Returns `undefined` if nothing was recognised.
+ */
+export function parseRetrievedDocuments(
+  content: unknown,
+): RetrievedDocument[] | undefined {
+  const list = isRecord(content)
+    ? firstOf(content, ["documents", "docs", "results"], Array.isArray)
+    : content;
+
+  const documents = Array.isArray(list)
+    ? list.map(toRetrievedDocument).filter((d) => d !== undefined)
+    : typeof list === "string"
+      ? parseRetrievedText(list)
+      : [];
+  return documents.length > 0 ? documents : undefined;
+}
+
+// Matches locations like `main.jl:12:5` and `line 12`, as printed by Julia
+// and most linters.
+const LOCATION_REGEX = /(?:\.\w+:(\d+)(?::(\d+))?|\bline\s+(\d+))/i;
+
+function toCodeCheckError(value: unknown): CodeCheckError | undefined {
+  if (isString(value)) {
+    const match = value.match(LOCATION_REGEX);
+    const line = match ? Number(match[1] ?? match[3]) : undefined;
+    const column = match?.[2] ? Number(match[2]) : undefined;
+    return { message: value, line, column };
+  }
+  if (!isRecord(value)) return undefined;
+  const message = firstOf(value, ["message", "msg", "error", "text"], isString);
+  if (!message) return undefined;
+  const parsed = toCodeCheckError(message);
+  return {
+    message,
+    line:
+      firstOf(value, ["line", "lineno", "line_number"], isNumber) ??
+      parsed?.line,
+    column: firstOf(value, ["column", "col"], isNumber) ?? parsed?.column,
+  };
+}
+
+// Matches the errors printed by Julia at the start of a line: `ERROR: ...`,
+// `LoadError: ...`, exceptions such as `UndefVarError: ...` and `┌ Error: ...`
+// from the logging macros. Lines merely mentioning errors, like
+// `No syntax errors detected`, don't match.
+const ERROR_LINE_REGEX = /^[\s┌│]*(?:ERROR:|LoadError\b|\w*Error:)/;
+const SUCCESS_REGEX =
+  /\b(passed|success(ful(ly)?)?)\b|\bno (\w+ )?(errors|issues)\b/i;
+
+/**
+ * Reads the output of a code check tool: either a JSON object with a
+ * `passed`/`success` flag and a list of errors, or the plain text output, in
+ * which case every line starting with a Julia error is reported. Text which
+ * neither reports an error nor says that the check passed isn't recognised.
+ */
+export function parseCodeCheckResult(
+  content: unknown,
+): CodeCheckResult | undefined {
+  if (isRecord(content)) {
+    const flag = firstOf(
+      content,
+      ["passed", "success", "ok", "valid"],
+      (v): v is boolean => typeof v === "boolean",
+    );
+    const rawErrors = firstOf(
+      content,
+      ["errors", "diagnostics", "issues"],
+      Array.isArray,
+    );
+    if (flag === undefined && !rawErrors) return undefined;
+    const errors = (rawErrors ?? [])
+      .map(toCodeCheckError)
+      .filter((e) => e !== undefined);
+    return {
+      passed: flag ?? errors.length === 0,
+      errors,
+      code: firstOf(content, ["code", "source"], isString),
+    };
+  }
+
+  if (!isString(content)) return undefined;
+  const errorLines = content
+    .split("\n")
+    .filter((line) => ERROR_LINE_REGEX.test(line));
+  if (errorLines.length === 0 && !SUCCESS_REGEX.test(content)) return undefined;
+  return {
+    passed: errorLines.length === 0,
+    errors: errorLines.map((line) => toCodeCheckError(line.trim())!),
+  };
+}
+
+// Matches Pkg output such as `  [cc48e778] + JutulDarcy v0.2.40`.
+const PKG_LINE_REGEX = /^\s*(?:\[[0-9a-f]+\]\s*)?[+↑~]\s*(\w+)\s+v(\S+)/;
+
+/**
+ * Reads the packages listed by Pkg's text output. Pkg lists each added package
+ * under both `Updating .../Project.toml` and `Updating .../Manifest.toml`; the
+ * Project.toml section has only the packages which were asked for, so it is
+ * preferred when present.
+ */
+function parsePkgOutput(text: string): InstalledPackage[] {
+  const project: InstalledPackage[] = [];
+  const other: InstalledPackage[] = [];
+  let inProject = false;
+  text.split("\n").forEach((line) => {
+    if (/Updating\b/.test(line)) {
+      inProject = /Project\.toml/.test(line);
+      return;
+    }
+    const match = line.match(PKG_LINE_REGEX);
+    if (!match) return;
+    (inProject ? project : other).push({ name: match[1], version: match[2] });
+  });
+  return project.length > 0 ? project : other;
+}
+
+/**
+ * Reads the packages from the output of a package installation tool, either a
+ * list of `{ name, version }` objects or the text printed by Julia's Pkg.
+ * Each package is listed once.
+ */
+export function parseInstalledPackages(
+  content: unknown,
+): InstalledPackage[] | undefined {
+  const list = isRecord(content)
+    ? firstOf(content, ["installed", "packages"], Array.isArray)
+    : content;
+
+  let packages: InstalledPackage[] = [];
+  if (Array.isArray(list)) {
+    packages = list
+      .map((p): InstalledPackage | undefined => {
+        if (isString(p)) return { name: p };
+        if (!isRecord(p) || !isString(p.name)) return undefined;
+        return {
+          name: p.name,
+          version: isString(p.version) ? p.version : undefined,
+        };
+      })
+      .filter((p) => p !== undefined);
+  } else if (typeof list === "string") {
+    packages = parsePkgOutput(list);
+  }
+  packages = uniqBy(packages, (p) => p.name);
+  return packages.length > 0 ? packages : undefined;
+}
@@ -0,0 +1,78 @@
+import { LoaderCircle, Pause, Play, StepForward } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useRunControls } from "@/hooks/use-run-controls";
+
+type RunControls = ReturnType<typeof useRunControls>;
+
+/**
+ * Buttons shown in place of "Send" while a run is streaming.
+ */
+export function RunningControls({ controls }: { controls: RunControls }) {
+  return (
+    <div className="ml-auto flex items-center gap-2">
+      <Button
+        type="button"
+        variant="outline"
+        onClick={controls.pauseAfterCurrentNode}
+        disabled={controls.pauseRequested || !controls.canPause}
+        title="Stop the run once the current node has finished, so it can be resumed from there"
+      >
+        <Pause className="h-4 w-4" />
+        {controls.pauseRequested ? "Pausing..." : "Pause after node"}
+      </Button>
+      <Button
+        key="stop"
+        type="button"
+        onClick={controls.stop}
+      >
+        <LoaderCircle className="h-4 w-4 animate-spin" />
+        Stop
+      </Button>
+    </div>
+  );
+}
+
+/**
+ * Banner shown when the latest run of the thread was paused with nodes left
+ * to run, offering to continue it from the latest checkpoint.
+ */
+export function PausedRunBanner({ controls }: { controls: RunControls }) {
+  const { pausedRun } = controls;
+  if (!pausedRun) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 border-b px-4 py-2 text-sm text-gray-700">
+      <span>
+        Run paused. Next:{" "}
+        {pausedRun.next.map((node, idx) => (
+          <code
+            key={idx}
+            className="mr-1 rounded bg-white px-1.5 py-0.5 text-xs"
+          >
+            {node}
+          </code>
+        ))}
+      </span>
+      <div className="ml-auto flex items-center gap-2">
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          onClick={() => controls.resume({ step: true })}
+          title="Run the next node and pause again"
+        >
+          <StepForward className="h-4 w-4" />
+          Step
+        </Button>
+        <Button
+          type="button"
+          size="sm"
+          onClick={() => controls.resume()}
+        >
+          <Play className="h-4 w-4" />
+          Resume
+        </Button>
+      </div>
+    </div>
+  );
+}
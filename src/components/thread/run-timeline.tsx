@@ -0,0 +1,133 @@
+import { useEffect, useState } from "react";
+import {
+  ChevronDown,
+  ChevronRight,
+  CircleCheck,
+  CircleX,
+  LoaderCircle,
+  PauseCircle,
+} from "lucide-react";
+import { cn } from "@/lib/utils";
+import {
+  formatDuration,
+  isInterruptNode,
+  RunTimelineNode,
+  RunTimelineStatus,
+} from "@/lib/run-timeline";
+import { useStreamContext } from "@/providers/Stream";
+
+const STATUS_ICONS: Record<RunTimelineStatus, React.ReactNode> = {
+  running: <LoaderCircle className="size-4 animate-spin text-blue-600" />,
+  done: <CircleCheck className="size-4 text-green-600" />,
+  error: <CircleX className="size-4 text-red-600" />,
+  interrupted: <PauseCircle className="size-4 text-amber-600" />,
+};
+
+/**
+ * Current time, updated every second while `active` so running durations
+ * keep counting.
+ */
+function useNow(active: boolean) {
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    if (!active) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [active]);
+  return now;
+}
+
+function formatTime(time: number | undefined) {
+  return time ? new Date(time).toLocaleTimeString() : "—";
+}
+
+function TimelineRow({ node, now }: { node: RunTimelineNode; now: number }) {
+  const duration =
+    node.startedAt !== undefined
+      ? (node.endedAt ?? now) - node.startedAt
+      : undefined;
+
+  return (
+    <li
+      className="flex items-center gap-2 py-1 text-sm"
+      title={node.error}
+    >
+      {STATUS_ICONS[node.status]}
+      <span
+        className={cn(
+          "font-mono",
+          node.status === "running" && "font-medium text-gray-900",
+        )}
+      >
+        {isInterruptNode(node) ? "human review" : node.name}
+      </span>
+      <span className="ml-auto text-xs text-gray-500">
+        {formatTime(node.startedAt)} – {formatTime(node.endedAt)}
+      </span>
+      <span className="w-16 text-right font-mono text-xs text-gray-700">
+        {duration !== undefined ? formatDuration(duration) : ""}
+      </span>
+    </li>
+  );
+}
+
+/**
+ * Collapsible list of the graph nodes executed by the latest run, with the
+ * start and end time and duration of each.
+ */
+export function RunTimeline() {
+  const stream = useStreamContext();
+  const { nodes, startedAt } = stream.runTimeline;
+  const [expanded, setExpanded] = useState(true);
+  const now = useNow(stream.isLoading);
+
+  if (nodes.length === 0) return null;
+
+  const current = nodes.findLast((n) => n.status === "running");
+  const endedAt = stream.isLoading
+    ? now
+    : Math.max(...nodes.map((n) => n.endedAt ?? 0));
+  const runStart = startedAt ?? nodes[0].startedAt;
+
+  return (
+    <div className="mr-auto w-full max-w-xl rounded-lg border border-gray-200 bg-gray-50">
+      <button
+        className="flex w-full cursor-pointer items-center gap-2 px-3 py-2 text-left text-sm text-gray-700"
+        onClick={() => setExpanded((e) => !e)}
+      >
+        {expanded ? (
+          <ChevronDown className="size-4" />
+        ) : (
+          <ChevronRight className="size-4" />
+        )}
+        <span className="font-medium">
+          {stream.isLoading
+            ? current
+              ? `Running ${current.name}`
+              : "Running"
+            : "Run finished"}
+        </span>
+        <span className="text-gray-500">
+          {nodes.length} {nodes.length === 1 ? "step" : "steps"}
+        </span>
+        {runStart !== undefined && (
+          <span className="ml-auto font-mono text-xs text-gray-500">
+            {formatDuration(endedAt - runStart)}
+          </span>
+        )}
+      </button>
+      {expanded && (
+        <ol className="border-t border-gray-200 px-3 py-1">
+          {nodes.map((node) => (
+            <TimelineRow
+              key={node.id}
+              node={node}
+              now={now}
+            />
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -1,30 +1,47 @@
 import { PrismAsyncLight as SyntaxHighlighterPrism } from "react-syntax-highlighter";
-import tsx from "react-syntax-highlighter/dist/esm/languages/prism/tsx";
-import python from "react-syntax-highlighter/dist/esm/languages/prism/python";
 import { coldarkDark } from "react-syntax-highlighter/dist/cjs/styles/prism";
-import { FC } from "react";
-
-// Register languages you want to support
-SyntaxHighlighterPrism.registerLanguage("js", tsx);
-SyntaxHighlighterPrism.registerLanguage("jsx", tsx);
-SyntaxHighlighterPrism.registerLanguage("ts", tsx);
-SyntaxHighlighterPrism.registerLanguage("tsx", tsx);
-SyntaxHighlighterPrism.registerLanguage("python", python);
+import { FC, useEffect, useReducer } from "react";
+import {
+  isLanguageLoaded,
+  loadLanguage,
+  resolveLanguage,
+} from "./code-languages";
 
 interface SyntaxHighlighterProps {
   children: string;
   language: string;
   className?: string;
+  showLineNumbers?: boolean;
+  wrapLongLines?: boolean;
 }
 
 export const SyntaxHighlighter: FC<SyntaxHighlighterProps> = ({
   children,
   language,
   className,
+  showLineNumbers = false,
+  wrapLongLines = false,
 }) => {
+  const [, rerender] = useReducer((n: number) => n + 1, 0);
+  const loaded = isLanguageLoaded(language);
+
+  // Grammars are loaded on demand, so highlight once it is available.
+  useEffect(() => {
+    if (loaded) return;
+    let cancelled = false;
+    loadLanguage(language)
+      .then(() => !cancelled && rerender())
+      .catch((e) => console.error(`Failed to load ${language} grammar`, e));
+    return () => {
+      cancelled = true;
+    };
+  }, [language, loaded]);
+
   return (
     <SyntaxHighlighterPrism
-      language={language}
+      // Remount once the grammar has been registered to re-highlight.
+      key={loaded ? "loaded" : "loading"}
+      language={resolveLanguage(language)}
       style={coldarkDark}
       customStyle={{
         margin: 0,
@@ -32,6 +49,14 @@ export const SyntaxHighlighter: FC<SyntaxHighlighterProps> = ({
         background: "transparent",
         padding: "1.5rem 1rem",
       }}
+      showLineNumbers={showLineNumbers}
+      lineNumberStyle={{
+        minWidth: "2.5em",
+        paddingRight: "1em",
+        color: "#71717a",
+        userSelect: "none",
+      }}
+      wrapLongLines={wrapLongLines}
       className={className}
     >
       {children}
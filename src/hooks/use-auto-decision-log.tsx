@@ -0,0 +1,69 @@
+import { useCallback, useEffect, useState } from "react";
+import { createClient } from "@/providers/client";
+import {
+  AUTO_DECISIONS_METADATA_KEY,
+  AutoDecisionLogEntry,
+  getAutoDecisionLog,
+} from "@/lib/interrupt-policies";
+
+/**
+ * The requests of the current thread which were answered by interrupt
+ * policies. The log is kept in each thread's metadata, so it stays with the
+ * thread wherever the decisions were taken.
+ */
+export function useAutoDecisionLog({
+  apiUrl,
+  apiKey,
+  threadId,
+}: {
+  apiUrl: string;
+  apiKey: string | null;
+  threadId: string | null;
+}) {
+  const [log, setLog] = useState<AutoDecisionLogEntry[]>([]);
+
+  useEffect(() => {
+    setLog([]);
+    if (!threadId) return;
+
+    let cancelled = false;
+    createClient(apiUrl, apiKey ?? undefined)
+      .threads.get(threadId)
+      .then((thread) => {
+        if (!cancelled) setLog(getAutoDecisionLog(thread.metadata));
+      })
+      .catch((e) => console.error("Failed to fetch auto-decision log", e));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [threadId, apiUrl, apiKey]);
+
+  /**
+   * Appends entries to the log of a thread, which needn't be the current one.
+   */
+  const logAutoDecisions = useCallback(
+    async (id: string, entries: AutoDecisionLogEntry[]) => {
+      if (entries.length === 0) return;
+      if (id === threadId) setLog((prev) => [...prev, ...entries]);
+
+      try {
+        const client = createClient(apiUrl, apiKey ?? undefined);
+        const thread = await client.threads.get(id);
+        await client.threads.update(id, {
+          metadata: {
+            [AUTO_DECISIONS_METADATA_KEY]: [
+              ...getAutoDecisionLog(thread.metadata),
+              ...entries,
+            ],
+          },
+        });
+      } catch (e) {
+        console.error("Failed to save auto-decision log", e);
+      }
+    },
+    [threadId, apiUrl, apiKey],
+  );
+
+  return { autoDecisionLog: log, logAutoDecisions };
+}
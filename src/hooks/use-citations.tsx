@@ -0,0 +1,11 @@
+import { createContext, useContext } from "react";
+import type { RetrievedDocument } from "@/components/thread/messages/tool-results/utils";
+
+export const CitationsContext = createContext<RetrievedDocument[]>([]);
+
+/**
+ * The documents which the numbered citations of a message refer to.
+ */
+export function useCitations() {
+  return useContext(CitationsContext);
+}
@@ -0,0 +1,12 @@
+import { createContext, useContext } from "react";
+
+/**
+ * Whether code blocks can be run and their results sent to the agent. They
+ * can't where the messages shown don't belong to the thread of the stream,
+ * e.g. in the review inbox, as the results would go to the wrong thread.
+ */
+export const CodeBlockActionsContext = createContext(true);
+
+export function useCodeBlockActions() {
+  return useContext(CodeBlockActionsContext);
+}
@@ -0,0 +1,26 @@
+import { createContext, useContext } from "react";
+import type { CodeBlockRef } from "@/components/thread/code-blocks";
+
+interface CodeDiffContextType {
+  /** Block selected as the first side of a comparison. */
+  selected: CodeBlockRef | undefined;
+  /**
+   * Selects a block for comparison. Once a second block is selected, the diff
+   * between the two is opened.
+   */
+  toggleSelected: (block: CodeBlockRef) => void;
+  openDiff: (before: CodeBlockRef, after: CodeBlockRef) => void;
+  getPreviousVersion: (block: CodeBlockRef) => CodeBlockRef | undefined;
+}
+
+export const CodeDiffContext = createContext<CodeDiffContextType | undefined>(
+  undefined,
+);
+
+/**
+ * Returns `undefined` outside of a `CodeDiffProvider`, in which case code
+ * blocks are rendered without compare actions.
+ */
+export function useCodeDiff() {
+  return useContext(CodeDiffContext);
+}
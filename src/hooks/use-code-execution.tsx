@@ -0,0 +1,78 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  applyExecutionEvent,
+  createExecutionResult,
+  executeCode,
+  type ExecutionResult,
+} from "@/lib/code-execution";
+
+/**
+ * Runs a code block against the execution endpoint, accumulating the streamed
+ * output into an `ExecutionResult`.
+ */
+export function useCodeExecution() {
+  const [result, setResult] = useState<ExecutionResult>();
+  const abortController = useRef<AbortController | null>(null);
+
+  const run = useCallback(async (code: string, language: string) => {
+    abortController.current?.abort();
+    const controller = new AbortController();
+    abortController.current = controller;
+    setResult(createExecutionResult());
+
+    try {
+      await executeCode(
+        { code, language, signal: controller.signal },
+        (event) =>
+          setResult((prev) => prev && applyExecutionEvent(prev, event)),
+      );
+    } catch (e: any) {
+      if (controller.signal.aborted) return;
+      console.error("Code execution failed", e);
+      setResult(
+        (prev) =>
+          prev && {
+            ...prev,
+            status: "error",
+            error: prev.error ?? e?.message ?? "Code execution failed.",
+            durationMs: Date.now() - prev.startedAt,
+          },
+      );
+    }
+
+    // The stream ends without a `done` event if the sidecar crashed, so the
+    // outcome of the code is unknown.
+    setResult((prev) =>
+      prev?.status === "running"
+        ? {
+            ...prev,
+            status: "error",
+            error: prev.error ?? "Execution ended unexpectedly.",
+            durationMs: Date.now() - prev.startedAt,
+          }
+        : prev,
+    );
+  }, []);
+
+  const cancel = useCallback(() => {
+    abortController.current?.abort();
+    setResult(
+      (prev) =>
+        prev && {
+          ...prev,
+          status: "cancelled",
+          durationMs: Date.now() - prev.startedAt,
+        },
+    );
+  }, []);
+
+  // Stop any running execution when the code block unmounts.
+  useEffect(() => () => abortController.current?.abort(), []);
+
+  return {
+    result,
+    run,
+    cancel,
+    isRunning: result?.status === "running",
+  };
+}
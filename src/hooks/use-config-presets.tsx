@@ -0,0 +1,53 @@
+import { useCallback, useState } from "react";
+import type { RunnableConfig } from "@/components/config/runnable-config-panel";
+import {
+  createConfigPreset,
+  getStoredConfigPresets,
+  setStoredConfigPresets,
+  type ConfigPreset,
+} from "@/lib/config-storage";
+
+/**
+ * Named `RunnableConfig` presets, persisted to localStorage.
+ */
+export function useConfigPresets() {
+  const [presets, _setPresets] = useState<ConfigPreset[]>(() =>
+    getStoredConfigPresets(),
+  );
+
+  const setPresets = useCallback(
+    (update: (prev: ConfigPreset[]) => ConfigPreset[]) => {
+      _setPresets((prev) => {
+        const next = update(prev);
+        setStoredConfigPresets(next);
+        return next;
+      });
+    },
+    [],
+  );
+
+  const savePreset = useCallback(
+    (name: string, config: RunnableConfig) => {
+      const preset = createConfigPreset(name, config);
+      // Saving under an existing name replaces that preset.
+      setPresets((prev) => [
+        ...prev.filter((p) => p.name !== preset.name),
+        preset,
+      ]);
+      return preset;
+    },
+    [setPresets],
+  );
+
+  const deletePreset = useCallback(
+    (id: string) => setPresets((prev) => prev.filter((p) => p.id !== id)),
+    [setPresets],
+  );
+
+  const importPresets = useCallback(
+    (imported: ConfigPreset[]) => setPresets((prev) => [...prev, ...imported]),
+    [setPresets],
+  );
+
+  return { presets, savePreset, deletePreset, importPresets };
+}
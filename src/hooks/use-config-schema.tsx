@@ -0,0 +1,48 @@
+import { useEffect, useState } from "react";
+import { createClient } from "@/providers/client";
+import { getConfigurableSchema, type JSONSchema } from "@/lib/config-schema";
+
+/**
+ * Fetches the assistant's config schema from the LangGraph server and returns
+ * the schema of its `configurable` object.
+ */
+export function useConfigSchema({
+  apiUrl,
+  apiKey,
+  assistantId,
+}: {
+  apiUrl: string;
+  apiKey: string | null;
+  assistantId: string;
+}) {
+  const [schema, setSchema] = useState<JSONSchema | undefined>(undefined);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    const client = createClient(apiUrl, apiKey ?? undefined);
+
+    setLoading(true);
+    client.assistants
+      .getSchemas(assistantId)
+      .then((schemas) => {
+        if (cancelled) return;
+        setSchema(
+          getConfigurableSchema(schemas.config_schema as JSONSchema | null),
+        );
+      })
+      .catch((e) => {
+        console.error("Failed to fetch config schema", e);
+        if (!cancelled) setSchema(undefined);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [apiUrl, apiKey, assistantId]);
+
+  return { schema, loading };
+}
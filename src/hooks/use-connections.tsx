@@ -0,0 +1,108 @@
+import { useCallback, useState } from "react";
+import { useQueryState } from "nuqs";
+import type { AgentInbox } from "@/components/thread/agent-inbox/types";
+import { getApiKey } from "@/lib/api-key";
+import {
+  checkConnectionStatus,
+  ConnectionStatus,
+  createConnection,
+  getStoredConnections,
+  isSameConnection,
+  setStoredConnections,
+} from "@/lib/connections";
+
+/**
+ * Saved deployment / assistant pairs, persisted to localStorage. Switching to
+ * a connection sets the `apiUrl` and `assistantId` query params.
+ */
+export function useConnections() {
+  const [apiUrl, setApiUrl] = useQueryState("apiUrl");
+  const [assistantId, setAssistantId] = useQueryState("assistantId");
+  const [_threadId, setThreadId] = useQueryState("threadId");
+  const [connections, _setConnections] = useState<AgentInbox[]>(() =>
+    getStoredConnections(),
+  );
+  const [statuses, setStatuses] = useState<Record<string, ConnectionStatus>>(
+    {},
+  );
+
+  const setConnections = useCallback(
+    (update: (prev: AgentInbox[]) => AgentInbox[]) => {
+      _setConnections((prev) => {
+        const next = update(prev);
+        setStoredConnections(next);
+        return next;
+      });
+    },
+    [],
+  );
+
+  const currentApiUrl = apiUrl || process.env.NEXT_PUBLIC_API_URL || "";
+  const currentAssistantId =
+    assistantId || process.env.NEXT_PUBLIC_ASSISTANT_ID || "";
+  const currentConnection = connections.find((c) =>
+    isSameConnection(c, currentApiUrl, currentAssistantId),
+  );
+
+  const saveConnection = useCallback(
+    (values: { name?: string; deploymentUrl: string; graphId: string }) => {
+      const connection = createConnection(values);
+      // Saving an existing deployment / graph pair renames it.
+      setConnections((prev) =>
+        prev.some((c) =>
+          isSameConnection(c, connection.deploymentUrl, connection.graphId),
+        )
+          ? prev.map((c) =>
+              isSameConnection(c, connection.deploymentUrl, connection.graphId)
+                ? { ...c, name: connection.name ?? c.name }
+                : c,
+            )
+          : [...prev, connection],
+      );
+    },
+    [setConnections],
+  );
+
+  const deleteConnection = useCallback(
+    (id: string) => setConnections((prev) => prev.filter((c) => c.id !== id)),
+    [setConnections],
+  );
+
+  const selectConnection = useCallback(
+    (connection: AgentInbox) => {
+      setConnections((prev) =>
+        prev.map((c) => ({ ...c, selected: c.id === connection.id })),
+      );
+      // Threads belong to a deployment, so the current one can't be kept.
+      setThreadId(null);
+      setApiUrl(connection.deploymentUrl);
+      setAssistantId(connection.graphId);
+    },
+    [setConnections, setThreadId, setApiUrl, setAssistantId],
+  );
+
+  const checkConnections = useCallback(async () => {
+    const apiKey = getApiKey();
+    setStatuses(
+      Object.fromEntries(connections.map((c) => [c.id, "checking" as const])),
+    );
+    await Promise.all(
+      connections.map(async (c) => {
+        const status = await checkConnectionStatus(c, apiKey);
+        setStatuses((prev) => ({ ...prev, [c.id]: status }));
+      }),
+    );
+  }, [connections]);
+
+  return {
+    connections,
+    currentApiUrl,
+    currentAssistantId,
+    currentConnection,
+    statuses,
+    saveConnection,
+    deleteConnection,
+    selectConnection,
+    checkConnections,
+  };
+}
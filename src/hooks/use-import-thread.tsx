@@ -0,0 +1,69 @@
+import { useCallback, useState } from "react";
+import { useQueryState } from "nuqs";
+import { toast } from "sonner";
+import { validate } from "uuid";
+import { getApiKey } from "@/lib/api-key";
+import { parseThreadExport } from "@/lib/thread-export";
+import { createClient } from "@/providers/client";
+import { getThreadSearchMetadata, useThreads } from "@/providers/Thread";
+import { THREAD_CONFIG_METADATA_KEY } from "./use-thread-config";
+
+/**
+ * Recreates a thread from a JSON export on the current server, and opens it.
+ */
+export function useImportThread() {
+  const [apiUrl] = useQueryState("apiUrl");
+  const [assistantId] = useQueryState("assistantId");
+  const [, setThreadId] = useQueryState("threadId");
+  const { getThreads, setThreads } = useThreads();
+  const [importing, setImporting] = useState(false);
+
+  const importThread = useCallback(
+    async (file: File) => {
+      if (!apiUrl || !assistantId) return;
+      setImporting(true);
+      try {
+        const exported = parseThreadExport(await file.text());
+        const client = createClient(apiUrl, getApiKey() ?? undefined);
+        // The thread must belong to a graph before its state can be set.
+        const graphId = validate(assistantId)
+          ? (await client.assistants.get(assistantId)).graph_id
+          : assistantId;
+
+        const thread = await client.threads.create({
+          graphId,
+          metadata: {
+            ...getThreadSearchMetadata(assistantId),
+            [THREAD_CONFIG_METADATA_KEY]: exported.config,
+            ...(exported.thread_id
+              ? { imported_from: exported.thread_id }
+              : {}),
+          },
+        });
+        await client.threads.updateState(thread.thread_id, {
+          values: exported.values,
+        });
+
+        setThreadId(thread.thread_id);
+        getThreads().then(setThreads).catch(console.error);
+        toast("Thread imported", {
+          description: `Imported ${exported.values.messages.length} messages.`,
+          duration: 3000,
+        });
+      } catch (error) {
+        console.error("Failed to import thread", error);
+        toast.error("Failed to import thread", {
+          description:
+            error instanceof Error ? error.message : "Invalid thread file.",
+          richColors: true,
+          closeButton: true,
+        });
+      } finally {
+        setImporting(false);
+      }
+    },
+    [apiUrl, assistantId, setThreadId, getThreads, setThreads],
+  );
+
+  return { importThread, importing };
+}
@@ -0,0 +1,54 @@
+import { useCallback, useState } from "react";
+import {
+  createInterruptPolicyRule,
+  getStoredInterruptPolicies,
+  setStoredInterruptPolicies,
+  type InterruptPolicyRule,
+} from "@/lib/interrupt-policies";
+
+/**
+ * Rules for answering interrupts without prompting, persisted to
+ * localStorage.
+ */
+export function useInterruptPolicies() {
+  const [rules, _setRules] = useState<InterruptPolicyRule[]>(() =>
+    getStoredInterruptPolicies(),
+  );
+
+  const setRules = useCallback(
+    (update: (prev: InterruptPolicyRule[]) => InterruptPolicyRule[]) => {
+      _setRules((prev) => {
+        const next = update(prev);
+        setStoredInterruptPolicies(next);
+        return next;
+      });
+    },
+    [],
+  );
+
+  const addRule = useCallback(
+    (values: Parameters<typeof createInterruptPolicyRule>[0]) =>
+      setRules((prev) => [...prev, createInterruptPolicyRule(values)]),
+    [setRules],
+  );
+
+  const deleteRule = useCallback(
+    (id: string) => setRules((prev) => prev.filter((r) => r.id !== id)),
+    [setRules],
+  );
+
+  const moveRule = useCallback(
+    (id: string, offset: -1 | 1) =>
+      setRules((prev) => {
+        const idx = prev.findIndex((r) => r.id === id);
+        const target = idx + offset;
+        if (idx === -1 || target < 0 || target >= prev.length) return prev;
+        const next = [...prev];
+        [next[idx], next[target]] = [next[target], next[idx]];
+        return next;
+      }),
+    [setRules],
+  );
+
+  return { rules, addRule, deleteRule, moveRule };
+}
@@ -0,0 +1,66 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useQueryState } from "nuqs";
+import type { Thread } from "@langchain/langgraph-sdk";
+import { toast } from "sonner";
+import { getPendingInterrupts } from "@/components/inbox/utils";
+import { StateType, useStreamContext } from "@/providers/Stream";
+import { getThreadSearchMetadata } from "@/providers/Thread";
+
+const INTERRUPTED_THREADS_LIMIT = 100;
+
+/**
+ * Threads of the current assistant which are waiting for human input, with
+ * the interrupts they are waiting on.
+ */
+export function useInterruptedThreads() {
+  const { client } = useStreamContext();
+  const [assistantId] = useQueryState("assistantId");
+  const graphId = assistantId || process.env.NEXT_PUBLIC_ASSISTANT_ID;
+  const [threads, setThreads] = useState<Thread<StateType>[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const refresh = useCallback(async () => {
+    if (!graphId) return;
+    setLoading(true);
+    try {
+      const result = await client.threads.search<StateType>({
+        metadata: getThreadSearchMetadata(graphId),
+        status: "interrupted",
+        limit: INTERRUPTED_THREADS_LIMIT,
+        sortBy: "updated_at",
+        sortOrder: "desc",
+      });
+      setThreads(result);
+    } catch (e: any) {
+      console.error("Failed to fetch interrupted threads", e);
+      toast.error("Failed to fetch interrupted threads", {
+        description: e?.message,
+        richColors: true,
+        closeButton: true,
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [client, graphId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  /**
+   * Drops a thread from the queue once it has been resumed, without waiting
+   * for its status to change on the server.
+   */
+  const removeThread = useCallback(
+    (threadId: string) =>
+      setThreads((prev) => prev.filter((t) => t.thread_id !== threadId)),
+    [],
+  );
+
+  const { items, otherThreads } = useMemo(
+    () => getPendingInterrupts(threads),
+    [threads],
+  );
+
+  return { items, otherThreads, loading, refresh, removeThread };
+}
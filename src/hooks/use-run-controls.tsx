@@ -0,0 +1,129 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useQueryState } from "nuqs";
+import type { Checkpoint } from "@langchain/langgraph-sdk";
+import { useStreamContext } from "@/providers/Stream";
+
+export interface PausedRun {
+  /** Latest checkpoint of the thread, which the run continues from. */
+  checkpoint: Checkpoint;
+  /** Nodes that will run next. */
+  next: string[];
+}
+
+function countFinishedNodes(
+  nodes: ReturnType<typeof useStreamContext>["runTimeline"]["nodes"],
+) {
+  return nodes.filter((n) => n.status === "done").length;
+}
+
+/**
+ * Controls for the run of the current thread: stopping it, pausing it once
+ * the node which is executing has finished, and resuming a paused run from
+ * the latest checkpoint.
+ */
+export function useRunControls() {
+  const stream = useStreamContext();
+  const [threadId] = useQueryState("threadId");
+  const [pausedRun, setPausedRun] = useState<PausedRun>();
+  // Number of finished nodes when a pause was requested. The run is cancelled
+  // as soon as another node reports its update.
+  const [pauseAfter, setPauseAfter] = useState<number>();
+
+  const { client, runId, isLoading, runTimeline } = stream;
+  const stopStream = stream.stop;
+
+  const refreshPausedRun = useCallback(async () => {
+    if (!threadId) {
+      setPausedRun(undefined);
+      return;
+    }
+    try {
+      const state = await client.threads.getState(threadId);
+      setPausedRun(
+        state.next.length > 0
+          ? { checkpoint: state.checkpoint, next: state.next }
+          : undefined,
+      );
+    } catch (e) {
+      console.error("Failed to fetch thread state", e);
+    }
+  }, [client, threadId]);
+
+  /**
+   * Cancels the run on the server and stops streaming. Nodes which already
+   * finished keep their checkpoints, so the run can be resumed.
+   */
+  const stop = useCallback(async () => {
+    setPauseAfter(undefined);
+    if (threadId && runId) {
+      try {
+        await client.runs.cancel(threadId, runId, false, "interrupt");
+      } catch (e) {
+        // Closing the stream cancels the run as well, so this is not fatal.
+        console.error("Failed to cancel run", e);
+      }
+    }
+    stopStream();
+    await refreshPausedRun();
+  }, [client, threadId, runId, stopStream, refreshPausedRun]);
+
+  /**
+   * A breakpoint can't be added to a run which has started, so the node which
+   * is executing is left to finish, and the run is cancelled once its update
+   * arrives. The node's result is checkpointed by then, so it doesn't run
+   * again on resume.
+   */
+  const pauseAfterCurrentNode = useCallback(() => {
+    setPauseAfter(countFinishedNodes(runTimeline.nodes));
+  }, [runTimeline.nodes]);
+
+  const finishedNodes = countFinishedNodes(runTimeline.nodes);
+  useEffect(() => {
+    if (pauseAfter !== undefined && finishedNodes > pauseAfter) {
+      stop();
+    }
+  }, [pauseAfter, finishedNodes, stop]);
+
+  const wasLoading = useRef(isLoading);
+  useEffect(() => {
+    if (isLoading) {
+      setPausedRun(undefined);
+    } else {
+      setPauseAfter(undefined);
+      // Runs also pause on breakpoints set with `interruptAfter`.
+      if (wasLoading.current) refreshPausedRun();
+    }
+    wasLoading.current = isLoading;
+  }, [isLoading, refreshPausedRun]);
+
+  useEffect(() => {
+    refreshPausedRun();
+  }, [refreshPausedRun]);
+
+  /**
+   * Continues a paused run. With `step`, the run pauses again after the next
+   * node.
+   */
+  const resume = ({ step = false }: { step?: boolean } = {}) => {
+    if (!pausedRun) return;
+    stream.submit(undefined, {
+      checkpoint: pausedRun.checkpoint,
+      streamMode: ["values"],
+      config: stream.runnableConfig,
+      ...(step && { interruptAfter: "*" as const }),
+    });
+  };
+
+  // Human-in-the-loop interrupts are answered through the interrupt view.
+  const hasInterruptValue = !!stream.interrupt && "value" in stream.interrupt;
+
+  return {
+    stop,
+    pauseAfterCurrentNode,
+    // The run can only be cancelled on the server once its ID is known.
+    canPause: !!threadId && !!runId,
+    pauseRequested: pauseAfter !== undefined,
+    pausedRun: !isLoading && !hasInterruptValue ? pausedRun : undefined,
+    resume,
+  };
+}
@@ -0,0 +1,44 @@
+import { v4 as uuidv4 } from "uuid";
+import { Message } from "@langchain/langgraph-sdk";
+import { useStreamContext } from "@/providers/Stream";
+import { ensureToolCallsHaveResponses } from "@/lib/ensure-tool-responses";
+import { useArtifactContext } from "@/components/thread/artifact";
+
+/**
+ * Returns a function which submits a new human message to the current thread,
+ * using the active run config and artifact context.
+ */
+export function useSendMessage() {
+  const stream = useStreamContext();
+  const [artifactContext] = useArtifactContext();
+
+  return (content: Message["content"]) => {
+    const newHumanMessage: Message = {
+      id: uuidv4(),
+      type: "human",
+      content,
+    };
+
+    const toolMessages = ensureToolCallsHaveResponses(stream.messages);
+
+    const context =
+      Object.keys(artifactContext).length > 0 ? artifactContext : undefined;
+
+    stream.submit(
+      { messages: [...toolMessages, newHumanMessage], context },
+      {
+        streamMode: ["values"],
+        config: stream.runnableConfig,
+        optimisticValues: (prev) => ({
+          ...prev,
+          context,
+          messages: [
+            ...(prev.messages ?? []),
+            ...toolMessages,
+            newHumanMessage,
+          ],
+        }),
+      },
+    );
+  };
+}
@@ -0,0 +1,145 @@
+import { useCallback } from "react";
+import { useQueryState } from "nuqs";
+import { toast } from "sonner";
+import { v4 as uuidv4 } from "uuid";
+import { Thread } from "@langchain/langgraph-sdk";
+import { getApiKey } from "@/lib/api-key";
+import { createClient } from "@/providers/client";
+import { useThreads } from "@/providers/Thread";
+
+/**
+ * Thread metadata key holding the user defined title of a thread.
+ */
+export const THREAD_TITLE_METADATA_KEY = "title";
+/**
+ * Thread metadata key marking a thread as pinned to the top of the history.
+ */
+export const THREAD_PINNED_METADATA_KEY = "pinned";
+
+function showError(title: string, e: unknown) {
+  console.error(title, e);
+  toast.error(title, {
+    description: e instanceof Error ? e.message : undefined,
+    richColors: true,
+    closeButton: true,
+  });
+}
+
+/**
+ * Rename, pin, duplicate and delete threads. The thread list is updated
+ * optimistically, and rolled back if the request fails.
+ */
+export function useThreadActions() {
+  const [apiUrl] = useQueryState("apiUrl");
+  const [threadId, setThreadId] = useQueryState("threadId");
+  const { setThreads } = useThreads();
+
+  const getClient = useCallback(() => {
+    if (!apiUrl) throw new Error("No API URL configured.");
+    return createClient(apiUrl, getApiKey() ?? undefined);
+  }, [apiUrl]);
+
+  const replaceThread = useCallback(
+    (id: string, thread: Thread) =>
+      setThreads((prev) => prev.map((t) => (t.thread_id === id ? thread : t))),
+    [setThreads],
+  );
+
+  const updateMetadata = useCallback(
+    async (
+      thread: Thread,
+      metadata: Record<string, unknown>,
+      errorTitle: string,
+    ) => {
+      replaceThread(thread.thread_id, {
+        ...thread,
+        metadata: { ...thread.metadata, ...metadata },
+      });
+      try {
+        await getClient().threads.update(thread.thread_id, { metadata });
+      } catch (e) {
+        replaceThread(thread.thread_id, thread);
+        showError(errorTitle, e);
+      }
+    },
+    [getClient, replaceThread],
+  );
+
+  const renameThread = useCallback(
+    (thread: Thread, title: string) =>
+      updateMetadata(
+        thread,
+        { [THREAD_TITLE_METADATA_KEY]: title.trim() || null },
+        "Failed to rename thread",
+      ),
+    [updateMetadata],
+  );
+
+  const togglePinThread = useCallback(
+    (thread: Thread) =>
+      updateMetadata(
+        thread,
+        { [THREAD_PINNED_METADATA_KEY]: !isThreadPinned(thread) },
+        "Failed to pin thread",
+      ),
+    [updateMetadata],
+  );
+
+  const deleteThread = useCallback(
+    async (thread: Thread) => {
+      let index = -1;
+      setThreads((prev) => {
+        index = prev.findIndex((t) => t.thread_id === thread.thread_id);
+        return prev.filter((t) => t.thread_id !== thread.thread_id);
+      });
+      if (thread.thread_id === threadId) setThreadId(null);
+
+      try {
+        await getClient().threads.delete(thread.thread_id);
+      } catch (e) {
+        setThreads((prev) => {
+          const next = [...prev];
+          next.splice(index === -1 ? 0 : index, 0, thread);
+          return next;
+        });
+        showError("Failed to delete thread", e);
+      }
+    },
+    [getClient, setThreads, threadId, setThreadId],
+  );
+
+  const duplicateThread = useCallback(
+    async (thread: Thread) => {
+      // Shown in place of the copy until the server has created it.
+      const placeholder: Thread = {
+        ...thread,
+        thread_id: `pending-${uuidv4()}`,
+        created_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      };
+      setThreads((prev) => [placeholder, ...prev]);
+
+      try {
+        const copy = await getClient().threads.copy(thread.thread_id);
+        replaceThread(placeholder.thread_id, copy);
+      } catch (e) {
+        setThreads((prev) =>
+          prev.filter((t) => t.thread_id !== placeholder.thread_id),
+        );
+        showError("Failed to duplicate thread", e);
+      }
+    },
+    [getClient, setThreads, replaceThread],
+  );
+
+  return { renameThread, togglePinThread, deleteThread, duplicateThread };
+}
+
+export function isThreadPinned(thread: Thread): boolean {
+  return thread.metadata?.[THREAD_PINNED_METADATA_KEY] === true;
+}
+
+export function getThreadCustomTitle(thread: Thread): string | undefined {
+  const title = thread.metadata?.[THREAD_TITLE_METADATA_KEY];
+  return typeof title === "string" && title.trim() ? title : undefined;
+}
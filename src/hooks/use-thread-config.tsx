@@ -0,0 +1,107 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { createClient } from "@/providers/client";
+import type { RunnableConfig } from "@/components/config/runnable-config-panel";
+
+/**
+ * Thread metadata key under which the config of the latest run is stored.
+ */
+export const THREAD_CONFIG_METADATA_KEY = "runnable_config";
+
+export function getThreadConfig(
+  metadata: Record<string, unknown> | null | undefined,
+): RunnableConfig | undefined {
+  const config = metadata?.[THREAD_CONFIG_METADATA_KEY];
+  return typeof config === "object" && config !== null
+    ? (config as RunnableConfig)
+    : undefined;
+}
+
+/**
+ * Keeps track of the config used for the latest run of each thread. The config
+ * is stored in the thread's metadata once a run has started, and offered for
+ * reuse when an existing thread is opened.
+ */
+export function useThreadConfig({
+  apiUrl,
+  apiKey,
+  threadId,
+}: {
+  apiUrl: string;
+  apiKey: string | null;
+  threadId: string | null;
+}) {
+  const [threadConfig, setThreadConfig] = useState<RunnableConfig>();
+  // Config of a submitted run, kept until the run has started. The thread is
+  // null until it has been created for a run on a new thread.
+  const pendingRun = useRef<{
+    threadId: string | null;
+    config: RunnableConfig;
+  }>(undefined);
+  // Threads created by this session already use the current config.
+  const createdThreadId = useRef<string | null>(null);
+
+  const saveThreadConfig = useCallback(
+    (id: string, config: RunnableConfig) => {
+      setThreadConfig(config);
+      createClient(apiUrl, apiKey ?? undefined)
+        .threads.update(id, {
+          metadata: { [THREAD_CONFIG_METADATA_KEY]: config },
+        })
+        .catch((e) => console.error("Failed to save thread config", e));
+    },
+    [apiUrl, apiKey],
+  );
+
+  /**
+   * Records the config a run was submitted with. It is only stored once the
+   * run has started, so a run which fails to start leaves the thread as is.
+   */
+  const recordRunConfig = useCallback(
+    (config: RunnableConfig) => {
+      pendingRun.current = { threadId, config };
+    },
+    [threadId],
+  );
+
+  /**
+   * Should be called once a new thread has been created for a pending run.
+   */
+  const onThreadCreated = useCallback((id: string) => {
+    createdThreadId.current = id;
+    if (pendingRun.current && !pendingRun.current.threadId) {
+      pendingRun.current.threadId = id;
+    }
+  }, []);
+
+  /**
+   * Should be called once the server has started the pending run.
+   */
+  const onRunStarted = useCallback(() => {
+    const run = pendingRun.current;
+    if (!run?.threadId) return;
+    saveThreadConfig(run.threadId, run.config);
+    pendingRun.current = undefined;
+  }, [saveThreadConfig]);
+
+  useEffect(() => {
+    if (!threadId) {
+      setThreadConfig(undefined);
+      return;
+    }
+    if (threadId === createdThreadId.current) return;
+
+    let cancelled = false;
+    createClient(apiUrl, apiKey ?? undefined)
+      .threads.get(threadId)
+      .then((thread) => {
+        if (!cancelled) setThreadConfig(getThreadConfig(thread.metadata));
+      })
+      .catch((e) => console.error("Failed to fetch thread config", e));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [threadId, apiUrl, apiKey]);
+
+  return { threadConfig, recordRunConfig, onThreadCreated, onRunStarted };
+}
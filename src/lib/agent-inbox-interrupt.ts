@@ -1,4 +1,5 @@
-import { HumanInterrupt } from "@langchain/langgraph/prebuilt";
+import type { Interrupt } from "@langchain/langgraph-sdk";
+import { HumanInterrupt, HumanResponse } from "@langchain/langgraph/prebuilt";
 
 export function isAgentInboxInterruptSchema(
   value: unknown,
@@ -17,3 +18,69 @@ export function isAgentInboxInterruptSchema(
     "allow_ignore" in valueAsObject.config
   );
 }
+
+/**
+ * A single `HumanInterrupt` request. One interrupt may carry several requests
+ * in its value, and a run may be waiting on several interrupts at once.
+ */
+export interface HumanInterruptEntry {
+  /** ID of the interrupt which raised the request, on servers which report it. */
+  interruptId?: string;
+  request: HumanInterrupt;
+}
+
+/**
+ * ID of an interrupt, which older servers report as `interrupt_id` and some
+ * don't report at all.
+ */
+export function getInterruptId(interrupt: Interrupt): string | undefined {
+  const { id, interrupt_id } = interrupt as Interrupt & {
+    id?: string;
+    interrupt_id?: string;
+  };
+  return id ?? interrupt_id;
+}
+
+/**
+ * Lists the `HumanInterrupt` requests of a run's pending interrupts. Without
+ * interrupt IDs only one interrupt can be resumed, so only the latest is kept.
+ */
+export function getHumanInterruptEntries(
+  interrupts: Interrupt[],
+): HumanInterruptEntry[] {
+  const humanInterrupts = interrupts.filter((i) =>
+    isAgentInboxInterruptSchema(i.value),
+  );
+  const resumable = humanInterrupts.every((i) => getInterruptId(i))
+    ? humanInterrupts
+    : humanInterrupts.slice(-1);
+
+  return resumable.flatMap((interrupt) => {
+    const value = interrupt.value as HumanInterrupt | HumanInterrupt[];
+    return (Array.isArray(value) ? value : [value]).map((request) => ({
+      interruptId: getInterruptId(interrupt),
+      request,
+    }));
+  });
+}
+
+/**
+ * Builds the `resume` value answering every entry, given a response per
+ * entry in the same order. Each interrupt is resumed with the list of
+ * responses to its requests. When several interrupts are pending the lists
+ * are keyed by interrupt ID, so that each reaches the right interrupt.
+ */
+export function buildResumePayload(
+  entries: HumanInterruptEntry[],
+  responses: HumanResponse[],
+): HumanResponse[] | Record<string, HumanResponse[]> {
+  const interruptIds = new Set(entries.map((e) => e.interruptId));
+  if (interruptIds.size <= 1) return responses;
+
+  const payload: Record<string, HumanResponse[]> = {};
+  entries.forEach((entry, idx) => {
+    const id = entry.interruptId!;
+    payload[id] = [...(payload[id] ?? []), responses[idx]];
+  });
+  return payload;
+}
@@ -0,0 +1,189 @@
+/**
+ * Client for the code execution sidecar. The endpoint accepts a JSON body of
+ * `{ code, language }` and streams back newline-delimited JSON events.
+ */
+
+export const CODE_EXECUTION_URL =
+  process.env.NEXT_PUBLIC_CODE_EXECUTION_URL || "/api/execute";
+
+/**
+ * Languages which can be sent to the execution endpoint.
+ */
+export const EXECUTABLE_LANGUAGES = ["julia"];
+
+export type ExecutionEvent =
+  | { type: "stdout"; data: string }
+  | { type: "stderr"; data: string }
+  | {
+      type: "image";
+      name: string;
+      mime_type: string;
+      /** Base64 encoded file contents. */
+      data: string;
+    }
+  | { type: "error"; message: string }
+  | { type: "done"; duration_ms?: number };
+
+export interface ExecutionImage {
+  name: string;
+  mimeType: string;
+  data: string;
+}
+
+export interface ExecutionResult {
+  status: "running" | "success" | "error" | "cancelled";
+  stdout: string;
+  stderr: string;
+  images: ExecutionImage[];
+  error?: string;
+  startedAt: number;
+  durationMs?: number;
+}
+
+export function isExecutableLanguage(language: string | undefined): boolean {
+  return !!language && EXECUTABLE_LANGUAGES.includes(language.toLowerCase());
+}
+
+export function createExecutionResult(): ExecutionResult {
+  return {
+    status: "running",
+    stdout: "",
+    stderr: "",
+    images: [],
+    startedAt: Date.now(),
+  };
+}
+
+export function applyExecutionEvent(
+  result: ExecutionResult,
+  event: ExecutionEvent,
+): ExecutionResult {
+  switch (event.type) {
+    case "stdout":
+      return { ...result, stdout: result.stdout + event.data };
+    case "stderr":
+      return { ...result, stderr: result.stderr + event.data };
+    case "image":
+      return {
+        ...result,
+        images: [
+          ...result.images,
+          { name: event.name, mimeType: event.mime_type, data: event.data },
+        ],
+      };
+    case "error":
+      return { ...result, status: "error", error: event.message };
+    case "done":
+      return {
+        ...result,
+        status: result.status === "error" ? "error" : "success",
+        durationMs: event.duration_ms ?? Date.now() - result.startedAt,
+      };
+    default:
+      return result;
+  }
+}
+
+/**
+ * Posts code to the execution endpoint and calls `onEvent` for every event
+ * streamed back. Resolves once the stream has ended.
+ * @throws {Error} if the endpoint cannot be reached or responds with an error.
+ */
+export async function executeCode(
+  {
+    code,
+    language,
+    endpoint = CODE_EXECUTION_URL,
+    signal,
+  }: {
+    code: string;
+    language: string;
+    endpoint?: string;
+    signal?: AbortSignal;
+  },
+  onEvent: (event: ExecutionEvent) => void,
+): Promise<void> {
+  const res = await fetch(endpoint, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ code, language }),
+    signal,
+  });
+
+  if (!res.body) {
+    throw new Error(`Execution endpoint responded with ${res.status}`);
+  }
+
+  const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+
+  const flush = (line: string) => {
+    if (!line.trim()) return;
+    try {
+      onEvent(JSON.parse(line) as ExecutionEvent);
+    } catch {
+      // Treat anything which is not an event as plain output.
+      onEvent({ type: "stdout", data: `${line}\n` });
+    }
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += value;
+    const lines = buffer.split("\n");
+    buffer = lines.pop() ?? "";
+    lines.forEach(flush);
+  }
+  flush(buffer);
+
+  if (!res.ok) {
+    throw new Error(`Execution endpoint responded with ${res.status}`);
+  }
+}
+
+const MAX_REPORTED_OUTPUT = 4000;
+
+function tail(text: string) {
+  const trimmed = text.trimEnd();
+  return trimmed.length > MAX_REPORTED_OUTPUT
+    ? `...\n${trimmed.slice(-MAX_REPORTED_OUTPUT)}`
+    : trimmed;
+}
+
+/**
+ * Formats the outcome of a code block run as a message for the agent, keeping
+ * stack traces and output in fenced blocks so their formatting survives.
+ */
+export function formatExecutionReport(
+  code: string,
+  language: string,
+  result: ExecutionResult,
+): string {
+  const failed = result.status === "error";
+  const sections = [
+    failed
+      ? `The code failed with: ${result.error ?? "an error"}`
+      : "The code ran successfully.",
+    `Code:\n\`\`\`${language}\n${code}\n\`\`\``,
+  ];
+
+  if (result.stderr.trim()) {
+    sections.push(
+      `${failed ? "Error output" : "Stderr"}:\n\`\`\`text\n${tail(result.stderr)}\n\`\`\``,
+    );
+  }
+  if (result.stdout.trim()) {
+    sections.push(`Output:\n\`\`\`text\n${tail(result.stdout)}\n\`\`\``);
+  }
+  if (result.images.length > 0) {
+    sections.push(
+      `Generated files: ${result.images.map((i) => i.name).join(", ")}`,
+    );
+  }
+  if (result.durationMs !== undefined) {
+    sections.push(`Duration: ${(result.durationMs / 1000).toFixed(2)} s`);
+  }
+
+  return sections.join("\n\n");
+}
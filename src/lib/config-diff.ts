@@ -0,0 +1,55 @@
+import isEqual from "lodash/isEqual";
+import type { RunnableConfig } from "@/components/config/runnable-config-panel";
+
+export interface ConfigDiffEntry {
+  /**
+   * Dot-separated path to the changed value, e.g. `configurable.response_model`.
+   */
+  path: string;
+  before: unknown;
+  after: unknown;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Lists every leaf value which differs between two configs. Nested objects are
+ * compared key by key, arrays and primitives are compared as a whole.
+ */
+export function diffConfigs(
+  before: RunnableConfig,
+  after: RunnableConfig,
+): ConfigDiffEntry[] {
+  return diffValues(before, after);
+}
+
+/**
+ * Same as `diffConfigs`, for any two values.
+ */
+export function diffValues(before: unknown, after: unknown): ConfigDiffEntry[] {
+  const entries: ConfigDiffEntry[] = [];
+
+  const walk = (a: unknown, b: unknown, path: string) => {
+    if (isPlainObject(a) && isPlainObject(b)) {
+      const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+      keys.forEach((key) =>
+        walk(a[key], b[key], path ? `${path}.${key}` : key),
+      );
+      return;
+    }
+    if (!isEqual(a, b)) {
+      entries.push({ path, before: a, after: b });
+    }
+  };
+
+  walk(before, after, "");
+  return entries;
+}
+
+export function formatConfigValue(value: unknown): string {
+  if (value === undefined) return "—";
+  if (typeof value === "string") return value;
+  return JSON.stringify(value);
+}
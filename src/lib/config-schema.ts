@@ -0,0 +1,300 @@
+import isEqual from "lodash/isEqual";
+
+/**
+ * The subset of JSON Schema emitted by LangGraph for a graph's config schema
+ * (Pydantic models / dataclasses on the Python side).
+ */
+export interface JSONSchema {
+  type?: string | string[];
+  title?: string;
+  description?: string;
+  default?: unknown;
+  enum?: unknown[];
+  const?: unknown;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JSONSchema;
+  items?: JSONSchema;
+  anyOf?: JSONSchema[];
+  oneOf?: JSONSchema[];
+  allOf?: JSONSchema[];
+  $ref?: string;
+  $defs?: Record<string, JSONSchema>;
+  definitions?: Record<string, JSONSchema>;
+}
+
+/**
+ * A schema with references resolved and `Optional[...]` unions unwrapped,
+ * ready to be rendered as a single form field.
+ */
+export type ResolvedSchema = JSONSchema & { nullable?: boolean };
+
+export type ConfigFieldKind =
+  | "enum"
+  | "boolean"
+  | "integer"
+  | "number"
+  | "string"
+  | "object"
+  | "json";
+
+function resolveRef(ref: string, root: JSONSchema): JSONSchema | undefined {
+  if (!ref.startsWith("#/")) return undefined;
+  return ref
+    .slice(2)
+    .split("/")
+    .reduce<any>((node, part) => node?.[part], root);
+}
+
+/**
+ * Resolves `$ref`, single-entry `allOf`, nullable `anyOf` and literal unions
+ * so that the field renderer only has to look at `type` and `enum`.
+ */
+export function resolveSchema(
+  schema: JSONSchema,
+  root: JSONSchema,
+): ResolvedSchema {
+  const { $ref, allOf, ...rest } = schema;
+
+  if ($ref) {
+    const target = resolveRef($ref, root);
+    if (!target) return rest;
+    return resolveSchema({ ...target, ...rest }, root);
+  }
+
+  if (allOf?.length === 1) {
+    return resolveSchema({ ...allOf[0], ...rest }, root);
+  }
+
+  const union = rest.anyOf ?? rest.oneOf;
+  if (union) {
+    const { anyOf: _anyOf, oneOf: _oneOf, ...base } = rest;
+    const nonNull = union.filter((s) => s.type !== "null");
+    const nullable = nonNull.length !== union.length;
+
+    if (nonNull.length === 1) {
+      return { ...resolveSchema(nonNull[0], root), ...base, nullable };
+    }
+    if (nonNull.every((s) => "const" in s)) {
+      return { ...base, enum: nonNull.map((s) => s.const), nullable };
+    }
+    return { ...base, nullable };
+  }
+
+  if (Array.isArray(rest.type)) {
+    const types = rest.type.filter((t) => t !== "null");
+    return {
+      ...rest,
+      type: types.length === 1 ? types[0] : undefined,
+      nullable: types.length !== rest.type.length,
+    };
+  }
+
+  return rest;
+}
+
+export function getFieldKind(schema: ResolvedSchema): ConfigFieldKind {
+  if (schema.enum?.length) return "enum";
+  switch (schema.type) {
+    case "boolean":
+      return "boolean";
+    case "integer":
+      return "integer";
+    case "number":
+      return "number";
+    case "string":
+      return "string";
+    case "object":
+      return schema.properties && Object.keys(schema.properties).length > 0
+        ? "object"
+        : "json";
+    default:
+      return "json";
+  }
+}
+
+/**
+ * Returns the schema of the `configurable` object. LangGraph servers either
+ * return it directly, or wrapped in a `{ configurable: ... }` config schema.
+ */
+export function getConfigurableSchema(
+  configSchema: JSONSchema | null | undefined,
+): JSONSchema | undefined {
+  if (!configSchema) return undefined;
+  const configurable = configSchema.properties?.configurable;
+  const schema = configurable
+    ? resolveSchema(configurable, configSchema)
+    : resolveSchema(configSchema, configSchema);
+
+  // Keep the definitions around so nested `$ref`s can still be resolved.
+  return {
+    ...schema,
+    $defs: configSchema.$defs,
+    definitions: configSchema.definitions,
+  };
+}
+
+/**
+ * Validates a numeric input against the `minimum`/`maximum` bounds of its
+ * schema, returning an error message or `undefined` if the value is valid.
+ */
+export function validateNumber(
+  value: number,
+  schema: ResolvedSchema,
+): string | undefined {
+  if (Number.isNaN(value)) return "Must be a number.";
+  if (schema.type === "integer" && !Number.isInteger(value)) {
+    return "Must be a whole number.";
+  }
+  if (schema.minimum !== undefined && value < schema.minimum) {
+    return `Must be at least ${schema.minimum}.`;
+  }
+  if (
+    schema.exclusiveMinimum !== undefined &&
+    value <= schema.exclusiveMinimum
+  ) {
+    return `Must be greater than ${schema.exclusiveMinimum}.`;
+  }
+  if (schema.maximum !== undefined && value > schema.maximum) {
+    return `Must be at most ${schema.maximum}.`;
+  }
+  if (
+    schema.exclusiveMaximum !== undefined &&
+    value >= schema.exclusiveMaximum
+  ) {
+    return `Must be less than ${schema.exclusiveMaximum}.`;
+  }
+  return undefined;
+}
+
+function getJsonType(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number" && Number.isInteger(value)) return "integer";
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  const actual = getJsonType(value);
+  return actual === type || (type === "number" && actual === "integer");
+}
+
+/**
+ * Validates a value against a schema, returning an error message for every
+ * violation. Only the keywords of `JSONSchema` are checked.
+ */
+export function validateAgainstSchema(
+  value: unknown,
+  schema: JSONSchema,
+  root: JSONSchema = schema,
+  path = "Value",
+): string[] {
+  if (schema.$ref) {
+    const { $ref, ...rest } = schema;
+    const target = resolveRef($ref, root);
+    return target
+      ? validateAgainstSchema(value, { ...target, ...rest }, root, path)
+      : [];
+  }
+
+  const errors: string[] = [];
+  schema.allOf?.forEach((sub) =>
+    errors.push(...validateAgainstSchema(value, sub, root, path)),
+  );
+
+  const union = schema.anyOf ?? schema.oneOf;
+  if (
+    union &&
+    !union.some(
+      (sub) => validateAgainstSchema(value, sub, root, path).length === 0,
+    )
+  ) {
+    errors.push(`${path} does not match any of the allowed types.`);
+  }
+  if (schema.const !== undefined && !isEqual(value, schema.const)) {
+    errors.push(`${path} must be ${JSON.stringify(schema.const)}.`);
+  }
+  if (schema.enum && !schema.enum.some((option) => isEqual(option, value))) {
+    const options = schema.enum.map((o) => JSON.stringify(o)).join(", ");
+    errors.push(`${path} must be one of ${options}.`);
+  }
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(value, type))) {
+      errors.push(`${path} must be of type ${types.join(" or ")}.`);
+      return errors;
+    }
+  }
+
+  if (typeof value === "number") {
+    const error = validateNumber(value, schema);
+    if (error) errors.push(`${path}: ${error}`);
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, idx) =>
+      errors.push(
+        ...validateAgainstSchema(item, schema.items!, root, `${path}[${idx}]`),
+      ),
+    );
+  }
+
+  if (getJsonType(value) === "object") {
+    const record = value as Record<string, unknown>;
+    schema.required?.forEach((key) => {
+      if (!(key in record)) errors.push(`${path} is missing "${key}".`);
+    });
+    Object.entries(record).forEach(([key, property]) => {
+      const propertySchema =
+        schema.properties?.[key] ??
+        (typeof schema.additionalProperties === "object"
+          ? schema.additionalProperties
+          : undefined);
+      if (propertySchema) {
+        errors.push(
+          ...validateAgainstSchema(
+            property,
+            propertySchema,
+            root,
+            `${path}.${key}`,
+          ),
+        );
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path} has an unexpected property "${key}".`);
+      }
+    });
+  }
+
+  return errors;
+}
+
+/**
+ * Collects the default value of every property in the schema, recursing into
+ * nested objects which do not declare a default of their own.
+ */
+export function getSchemaDefaults(
+  schema: JSONSchema,
+  root: JSONSchema = schema,
+): Record<string, unknown> {
+  const defaults: Record<string, unknown> = {};
+  Object.entries(schema.properties ?? {}).forEach(([key, property]) => {
+    const resolved = resolveSchema(property, root);
+    if (resolved.default !== undefined) {
+      defaults[key] = resolved.default;
+    } else if (getFieldKind(resolved) === "object") {
+      const nested = getSchemaDefaults(resolved, root);
+      if (Object.keys(nested).length > 0) defaults[key] = nested;
+    }
+  });
+  return defaults;
+}
+
+export function prettifyKey(key: string): string {
+  const spaced = key.replace(/_/g, " ");
+  return spaced.charAt(0).toUpperCase() + spaced.slice(1);
+}
@@ -0,0 +1,123 @@
+import { v4 as uuidv4 } from "uuid";
+import type { RunnableConfig } from "@/components/config/runnable-config-panel";
+
+const RUNNABLE_CONFIG_KEY = "lg:chat:runnableConfig";
+const CONFIG_PRESETS_KEY = "lg:chat:configPresets";
+
+export const DEFAULT_RUNNABLE_CONFIG: RunnableConfig = {
+  tags: [],
+  metadata: {},
+  recursion_limit: 25,
+  configurable: {},
+};
+
+export interface ConfigPreset {
+  id: string;
+  name: string;
+  config: RunnableConfig;
+  createdAt: string;
+}
+
+/**
+ * The shape of an exported presets file.
+ */
+interface ConfigPresetsFile {
+  version: 1;
+  presets: ConfigPreset[];
+}
+
+export function readJson(key: string): unknown {
+  try {
+    if (typeof window === "undefined") return undefined;
+    const raw = window.localStorage.getItem(key);
+    return raw ? JSON.parse(raw) : undefined;
+  } catch {
+    // no-op
+  }
+
+  return undefined;
+}
+
+export function writeJson(key: string, value: unknown) {
+  try {
+    window.localStorage.setItem(key, JSON.stringify(value));
+  } catch (e) {
+    console.error(`Failed to write ${key} to localStorage`, e);
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isConfigPreset(value: unknown): value is ConfigPreset {
+  return (
+    isRecord(value) &&
+    typeof value.name === "string" &&
+    value.name.trim().length > 0 &&
+    isRecord(value.config)
+  );
+}
+
+export function getStoredRunnableConfig(): RunnableConfig {
+  const stored = readJson(RUNNABLE_CONFIG_KEY);
+  return isRecord(stored) ? stored : DEFAULT_RUNNABLE_CONFIG;
+}
+
+export function setStoredRunnableConfig(config: RunnableConfig) {
+  writeJson(RUNNABLE_CONFIG_KEY, config);
+}
+
+export function getStoredConfigPresets(): ConfigPreset[] {
+  const stored = readJson(CONFIG_PRESETS_KEY);
+  return Array.isArray(stored) ? stored.filter(isConfigPreset) : [];
+}
+
+export function setStoredConfigPresets(presets: ConfigPreset[]) {
+  writeJson(CONFIG_PRESETS_KEY, presets);
+}
+
+export function createConfigPreset(
+  name: string,
+  config: RunnableConfig,
+): ConfigPreset {
+  return {
+    id: uuidv4(),
+    name: name.trim(),
+    config,
+    createdAt: new Date().toISOString(),
+  };
+}
+
+export function serializeConfigPresets(presets: ConfigPreset[]): string {
+  const file: ConfigPresetsFile = { version: 1, presets };
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Parses an exported presets file. Accepts the full export format, a bare
+ * array of presets, or a single preset. Imported presets are given new IDs so
+ * they never overwrite existing ones.
+ * @throws {Error} if the file does not contain any valid presets.
+ */
+export function parseConfigPresets(text: string): ConfigPreset[] {
+  const parsed: unknown = JSON.parse(text);
+  const candidates: unknown[] = Array.isArray(parsed)
+    ? parsed
+    : isRecord(parsed) && Array.isArray(parsed.presets)
+      ? parsed.presets
+      : [parsed];
+
+  const presets = candidates.filter(isConfigPreset).map((preset) => ({
+    ...createConfigPreset(preset.name, preset.config),
+    createdAt:
+      typeof preset.createdAt === "string"
+        ? preset.createdAt
+        : new Date().toISOString(),
+  }));
+
+  if (presets.length === 0) {
+    throw new Error("No valid presets found in file.");
+  }
+  return presets;
+}
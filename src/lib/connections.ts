@@ -0,0 +1,139 @@
+import { v4 as uuidv4, validate } from "uuid";
+import type { AgentInbox } from "@/components/thread/agent-inbox/types";
+import { readJson, writeJson } from "./config-storage";
+
+const CONNECTIONS_KEY = "lg:chat:connections";
+
+export type ConnectionStatus =
+  | "checking"
+  | "online"
+  | "offline"
+  | "unauthorized"
+  | "missing";
+
+/**
+ * Checks whether a LangGraph server is reachable at `apiUrl`.
+ */
+export async function checkGraphStatus(
+  apiUrl: string,
+  apiKey: string | null,
+): Promise<boolean> {
+  try {
+    const res = await fetch(`${apiUrl}/info`, {
+      ...(apiKey && {
+        headers: {
+          "X-Api-Key": apiKey,
+        },
+      }),
+    });
+
+    return res.ok;
+  } catch (e) {
+    console.error(e);
+    return false;
+  }
+}
+
+function getHeaders(apiKey: string | null): Record<string, string> {
+  return {
+    "Content-Type": "application/json",
+    ...(apiKey && { "X-Api-Key": apiKey }),
+  };
+}
+
+/**
+ * Checks that the deployment of a connection is reachable with the given API
+ * key, and that it serves the connection's assistant or graph.
+ */
+export async function checkConnectionStatus(
+  connection: AgentInbox,
+  apiKey: string | null,
+): Promise<Exclude<ConnectionStatus, "checking">> {
+  if (!(await checkGraphStatus(connection.deploymentUrl, apiKey))) {
+    return "offline";
+  }
+  try {
+    const res = validate(connection.graphId)
+      ? await fetch(
+          `${connection.deploymentUrl}/assistants/${connection.graphId}`,
+          { headers: getHeaders(apiKey) },
+        )
+      : await fetch(`${connection.deploymentUrl}/assistants/search`, {
+          method: "POST",
+          headers: getHeaders(apiKey),
+          body: JSON.stringify({ graph_id: connection.graphId, limit: 1 }),
+        });
+    if (res.status === 401 || res.status === 403) return "unauthorized";
+    if (res.status === 404) return "missing";
+    if (!res.ok) return "offline";
+
+    const found = await res.json();
+    return Array.isArray(found) && found.length === 0 ? "missing" : "online";
+  } catch (e) {
+    console.error(e);
+    return "offline";
+  }
+}
+
+function isConnection(value: unknown): value is AgentInbox {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as AgentInbox).id === "string" &&
+    typeof (value as AgentInbox).graphId === "string" &&
+    typeof (value as AgentInbox).deploymentUrl === "string"
+  );
+}
+
+export function getStoredConnections(): AgentInbox[] {
+  const stored = readJson(CONNECTIONS_KEY);
+  return Array.isArray(stored) ? stored.filter(isConnection) : [];
+}
+
+export function setStoredConnections(connections: AgentInbox[]) {
+  writeJson(CONNECTIONS_KEY, connections);
+}
+
+/**
+ * Trailing slashes are dropped so that `http://localhost:2024/` and
+ * `http://localhost:2024` are the same deployment.
+ */
+export function normalizeDeploymentUrl(url: string): string {
+  return url.trim().replace(/\/+$/, "");
+}
+
+export function createConnection({
+  name,
+  deploymentUrl,
+  graphId,
+}: {
+  name?: string;
+  deploymentUrl: string;
+  graphId: string;
+}): AgentInbox {
+  return {
+    id: uuidv4(),
+    name: name?.trim() || undefined,
+    deploymentUrl: normalizeDeploymentUrl(deploymentUrl),
+    graphId: graphId.trim(),
+    selected: false,
+  };
+}
+
+export function isSameConnection(
+  connection: Pick<AgentInbox, "deploymentUrl" | "graphId">,
+  deploymentUrl: string | null | undefined,
+  graphId: string | null | undefined,
+): boolean {
+  return (
+    !!deploymentUrl &&
+    !!graphId &&
+    normalizeDeploymentUrl(connection.deploymentUrl) ===
+      normalizeDeploymentUrl(deploymentUrl) &&
+    connection.graphId === graphId
+  );
+}
+
+export function getConnectionLabel(connection: AgentInbox): string {
+  return connection.name || connection.graphId;
+}
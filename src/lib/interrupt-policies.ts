@@ -0,0 +1,214 @@
+import { v4 as uuidv4 } from "uuid";
+import type { HumanInterrupt } from "@langchain/langgraph/prebuilt";
+import { readJson, writeJson } from "./config-storage";
+
+const INTERRUPT_POLICIES_KEY = "lg:chat:interruptPolicies";
+
+/**
+ * Thread metadata key under which the decisions taken by interrupt policies
+ * are logged.
+ */
+export const AUTO_DECISIONS_METADATA_KEY = "interrupt_auto_decisions";
+
+export type InterruptPolicyDecision = "accept" | "ignore" | "prompt";
+
+export interface InterruptPolicyArgPattern {
+  arg: string;
+  /**
+   * Regular expression which must match the whole arg, stringified if not a
+   * string.
+   */
+  pattern: string;
+}
+
+/**
+ * A rule deciding how to answer the `HumanInterrupt` requests it matches.
+ */
+export interface InterruptPolicyRule {
+  id: string;
+  /** Name of the action, where `*` matches any characters. */
+  action: string;
+  /** Every pattern must match for the rule to apply. */
+  argPatterns: InterruptPolicyArgPattern[];
+  decision: InterruptPolicyDecision;
+}
+
+/**
+ * A request answered by a rule, without the user being prompted.
+ */
+export interface AutoDecisionLogEntry {
+  id: string;
+  action: string;
+  args: Record<string, any>;
+  decision: Exclude<InterruptPolicyDecision, "prompt">;
+  /** The rule as it was when it applied. */
+  rule: InterruptPolicyRule;
+  /** The last message of the thread when the request was answered. */
+  messageId?: string;
+  decidedAt: string;
+}
+
+/**
+ * Rules which always apply, ahead of the stored ones, and can't be removed.
+ */
+export const BUILT_IN_INTERRUPT_POLICIES: InterruptPolicyRule[] = [
+  {
+    id: "allow-package-installation",
+    action: "allow_package_installation",
+    argPatterns: [],
+    decision: "prompt",
+  },
+];
+
+function isRecord(value: unknown): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isInterruptPolicyRule(value: unknown): value is InterruptPolicyRule {
+  return (
+    isRecord(value) &&
+    typeof value.id === "string" &&
+    typeof value.action === "string" &&
+    Array.isArray(value.argPatterns) &&
+    ["accept", "ignore", "prompt"].includes(value.decision)
+  );
+}
+
+function isBuiltIn(rule: InterruptPolicyRule): boolean {
+  return BUILT_IN_INTERRUPT_POLICIES.some((r) => r.id === rule.id);
+}
+
+export function getStoredInterruptPolicies(): InterruptPolicyRule[] {
+  const stored = readJson(INTERRUPT_POLICIES_KEY);
+  return Array.isArray(stored)
+    ? stored.filter(isInterruptPolicyRule).filter((r) => !isBuiltIn(r))
+    : [];
+}
+
+export function setStoredInterruptPolicies(rules: InterruptPolicyRule[]) {
+  writeJson(INTERRUPT_POLICIES_KEY, rules);
+}
+
+export function createInterruptPolicyRule({
+  action,
+  argPatterns = [],
+  decision,
+}: Omit<InterruptPolicyRule, "id" | "argPatterns"> & {
+  argPatterns?: InterruptPolicyArgPattern[];
+}): InterruptPolicyRule {
+  return {
+    id: uuidv4(),
+    action: action.trim(),
+    argPatterns: argPatterns
+      .map(({ arg, pattern }) => ({ arg: arg.trim(), pattern }))
+      .filter(({ arg }) => arg),
+    decision,
+  };
+}
+
+/**
+ * Parses arg patterns written as `arg=pattern` pairs, one per line. An arg
+ * without a pattern matches any value.
+ */
+export function parseArgPatterns(text: string): InterruptPolicyArgPattern[] {
+  return text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => {
+      const idx = line.indexOf("=");
+      return idx === -1
+        ? { arg: line, pattern: ".*" }
+        : { arg: line.slice(0, idx).trim(), pattern: line.slice(idx + 1) };
+    });
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function matchesAction(pattern: string, action: string): boolean {
+  const regex = new RegExp(
+    `^${pattern.split("*").map(escapeRegExp).join(".*")}$`,
+  );
+  return regex.test(action);
+}
+
+/**
+ * Patterns are anchored, so that `cmd=ls` doesn't accept `rm -rf x; ls`, and
+ * `.` matches newlines, so that `.*` matches any value.
+ */
+function matchesArg(pattern: string, value: unknown): boolean {
+  if (value === undefined) return false;
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  try {
+    return new RegExp(`^(?:${pattern})$`, "s").test(text);
+  } catch {
+    // An invalid pattern never matches, so the request is not auto-answered.
+    return false;
+  }
+}
+
+export function matchesInterruptPolicy(
+  rule: InterruptPolicyRule,
+  request: HumanInterrupt,
+): boolean {
+  const { action, args } = request.action_request;
+  return (
+    matchesAction(rule.action, action) &&
+    rule.argPatterns.every(({ arg, pattern }) =>
+      matchesArg(pattern, args?.[arg]),
+    )
+  );
+}
+
+/**
+ * Finds the rule deciding how to answer a request. A matching "prompt" rule,
+ * including the built-in ones, always wins, so that a broad auto-accept rule
+ * can't cover a request which should be reviewed. Otherwise the first
+ * matching rule applies, provided the request allows its decision.
+ */
+export function getInterruptPolicy(
+  rules: InterruptPolicyRule[],
+  request: HumanInterrupt,
+): InterruptPolicyRule | undefined {
+  const matching = [...BUILT_IN_INTERRUPT_POLICIES, ...rules].filter((rule) =>
+    matchesInterruptPolicy(rule, request),
+  );
+  if (matching.some((rule) => rule.decision === "prompt")) return undefined;
+
+  const rule = matching[0];
+  if (rule?.decision === "accept" && request.config.allow_accept) return rule;
+  if (rule?.decision === "ignore" && request.config.allow_ignore) return rule;
+  return undefined;
+}
+
+export function createAutoDecisionLogEntry(
+  rule: InterruptPolicyRule,
+  request: HumanInterrupt,
+  messageId: string | undefined,
+): AutoDecisionLogEntry {
+  return {
+    id: uuidv4(),
+    action: request.action_request.action,
+    args: request.action_request.args,
+    decision: rule.decision as AutoDecisionLogEntry["decision"],
+    rule,
+    messageId,
+    decidedAt: new Date().toISOString(),
+  };
+}
+
+export function getAutoDecisionLog(
+  metadata: Record<string, unknown> | null | undefined,
+): AutoDecisionLogEntry[] {
+  const log = metadata?.[AUTO_DECISIONS_METADATA_KEY];
+  return Array.isArray(log) ? log : [];
+}
+
+export function formatInterruptPolicyRule(rule: InterruptPolicyRule): string {
+  const args = rule.argPatterns
+    .map(({ arg, pattern }) => `${arg} ~ /${pattern}/`)
+    .join(", ");
+  return args ? `${rule.action} (${args})` : rule.action;
+}
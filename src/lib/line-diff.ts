@@ -0,0 +1,123 @@
+export interface DiffLine {
+  type: "equal" | "added" | "removed";
+  text: string;
+  /** 1-based line number in the old text, unless the line was added. */
+  oldLine?: number;
+  /** 1-based line number in the new text, unless the line was removed. */
+  newLine?: number;
+}
+
+export interface SplitDiffRow {
+  left?: DiffLine;
+  right?: DiffLine;
+}
+
+// Above this many lines (after trimming the common prefix and suffix), the
+// changed region is shown as fully replaced instead of computing the LCS.
+const MAX_DIFF_LINES = 2000;
+
+function splitLines(text: string): string[] {
+  return text.replace(/\n$/, "").split("\n");
+}
+
+/**
+ * Line based diff of two texts, using the longest common subsequence.
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = splitLines(before);
+  const b = splitLines(after);
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const result: DiffLine[] = [];
+  const equal = (i: number, j: number) =>
+    result.push({ type: "equal", text: a[i], oldLine: i + 1, newLine: j + 1 });
+  const removed = (i: number) =>
+    result.push({ type: "removed", text: a[i], oldLine: i + 1 });
+  const added = (j: number) =>
+    result.push({ type: "added", text: b[j], newLine: j + 1 });
+
+  for (let i = 0; i < start; i++) equal(i, i);
+
+  const n = endA - start;
+  const m = endB - start;
+  if (n + m > MAX_DIFF_LINES) {
+    for (let i = start; i < endA; i++) removed(i);
+    for (let j = start; j < endB; j++) added(j);
+  } else {
+    // lengths[i][j] is the LCS length of a[start + i..] and b[start + j..].
+    const lengths = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lengths[i][j] =
+          a[start + i] === b[start + j]
+            ? lengths[i + 1][j + 1] + 1
+            : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+      if (a[start + i] === b[start + j]) {
+        equal(start + i++, start + j++);
+      } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+        removed(start + i++);
+      } else {
+        added(start + j++);
+      }
+    }
+    while (i < n) removed(start + i++);
+    while (j < m) added(start + j++);
+  }
+
+  for (let k = 0; k < a.length - endA; k++) equal(endA + k, endB + k);
+  return result;
+}
+
+/**
+ * Pairs the lines of a diff into rows for a side by side view, lining up
+ * each run of removed lines with the added lines that replace it.
+ */
+export function toSplitRows(lines: DiffLine[]): SplitDiffRow[] {
+  const rows: SplitDiffRow[] = [];
+  let removed: DiffLine[] = [];
+  let added: DiffLine[] = [];
+
+  const flush = () => {
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      rows.push({ left: removed[k], right: added[k] });
+    }
+    removed = [];
+    added = [];
+  };
+
+  for (const line of lines) {
+    if (line.type === "removed") {
+      removed.push(line);
+    } else if (line.type === "added") {
+      added.push(line);
+    } else {
+      flush();
+      rows.push({ left: line, right: line });
+    }
+  }
+  flush();
+  return rows;
+}
+
+export function countChanges(lines: DiffLine[]) {
+  return {
+    added: lines.filter((l) => l.type === "added").length,
+    removed: lines.filter((l) => l.type === "removed").length,
+  };
+}
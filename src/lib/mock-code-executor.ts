@@ -0,0 +1,39 @@
+import type { ExecutionEvent } from "./code-execution";
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Stand-in for the Julia sidecar, used when no execution backend is
+ * configured. It does not evaluate anything: it echoes the string literals
+ * passed to `println`, and reports an error for any call to `error(...)`, so
+ * the UI can be exercised without Julia installed.
+ */
+export async function* mockExecute(
+  code: string,
+): AsyncGenerator<ExecutionEvent> {
+  const startedAt = Date.now();
+  yield {
+    type: "stderr",
+    data: "[mock executor] Julia is not connected, output is simulated.\n",
+  };
+
+  for (const line of code.split("\n")) {
+    await sleep(50);
+
+    const println = /println\(\s*"((?:[^"\\]|\\.)*)"\s*\)/.exec(line);
+    if (println) {
+      yield { type: "stdout", data: `${println[1]}\n` };
+    }
+
+    const error = /\berror\(\s*"((?:[^"\\]|\\.)*)"\s*\)/.exec(line);
+    if (error) {
+      yield { type: "stderr", data: `ERROR: ${error[1]}\n` };
+      yield { type: "error", message: error[1] };
+      break;
+    }
+  }
+
+  yield { type: "done", duration_ms: Date.now() - startedAt };
+}
@@ -0,0 +1,161 @@
+/**
+ * Tracks the graph nodes executed by a run, from the `debug` and `updates`
+ * stream events. Debug events carry the start and end of every task; when the
+ * server does not send them, the `updates` events are used instead, which only
+ * tell when a node has finished.
+ */
+
+export type RunTimelineStatus = "running" | "done" | "error" | "interrupted";
+
+export interface RunTimelineNode {
+  /** Task id from the debug events, or a generated id. */
+  id: string;
+  name: string;
+  step?: number;
+  status: RunTimelineStatus;
+  /** Milliseconds since the epoch. */
+  startedAt?: number;
+  endedAt?: number;
+  error?: string;
+}
+
+export interface RunTimeline {
+  nodes: RunTimelineNode[];
+  startedAt?: number;
+  /** Whether debug events were received, in which case updates are ignored. */
+  hasDebugEvents: boolean;
+}
+
+export type RunTimelineAction =
+  | { type: "start"; at: number }
+  | { type: "reset" }
+  | { type: "debug"; data: unknown; at: number }
+  | { type: "updates"; data: Record<string, unknown>; at: number }
+  | { type: "finish"; at: number };
+
+export const EMPTY_RUN_TIMELINE: RunTimeline = {
+  nodes: [],
+  hasDebugEvents: false,
+};
+
+const INTERRUPT_NODE = "__interrupt__";
+
+function formatError(error: unknown): string | undefined {
+  if (error == null) return undefined;
+  return typeof error === "string" ? error : JSON.stringify(error);
+}
+
+function applyDebugEvent(
+  timeline: RunTimeline,
+  data: unknown,
+  at: number,
+): RunTimeline {
+  if (typeof data !== "object" || data === null) return timeline;
+  const event = data as Record<string, any>;
+  const payload = event.payload as Record<string, any> | undefined;
+  if (!payload || typeof payload.name !== "string") return timeline;
+  // Internal nodes such as `__start__` are not shown.
+  if (payload.name.startsWith("__")) return timeline;
+  // Events are timed on arrival rather than with their server timestamp, so
+  // running durations are not skewed by a clock difference.
+  const time = at;
+
+  if (event.type === "task") {
+    return {
+      ...timeline,
+      hasDebugEvents: true,
+      nodes: [
+        ...timeline.nodes,
+        {
+          id: String(payload.id ?? `${payload.name}-${timeline.nodes.length}`),
+          name: payload.name,
+          step: typeof event.step === "number" ? event.step : undefined,
+          status: "running",
+          startedAt: time,
+        },
+      ],
+    };
+  }
+
+  if (event.type === "task_result") {
+    const error = formatError(payload.error);
+    const interrupted =
+      Array.isArray(payload.interrupts) && payload.interrupts.length > 0;
+    return {
+      ...timeline,
+      hasDebugEvents: true,
+      nodes: timeline.nodes.map((node) =>
+        node.id === String(payload.id)
+          ? {
+              ...node,
+              endedAt: time,
+              error,
+              status: error ? "error" : interrupted ? "interrupted" : "done",
+            }
+          : node,
+      ),
+    };
+  }
+
+  return timeline;
+}
+
+function applyUpdatesEvent(
+  timeline: RunTimeline,
+  data: Record<string, unknown>,
+  at: number,
+): RunTimeline {
+  if (timeline.hasDebugEvents) return timeline;
+  const previousEnd =
+    timeline.nodes[timeline.nodes.length - 1]?.endedAt ?? timeline.startedAt;
+  const nodes = Object.keys(data).map(
+    (name, idx): RunTimelineNode => ({
+      id: `${name}-${timeline.nodes.length + idx}`,
+      name,
+      status: name === INTERRUPT_NODE ? "interrupted" : "done",
+      // Nodes are assumed to run back to back, so a node started when the
+      // previous one ended.
+      startedAt: previousEnd,
+      endedAt: at,
+    }),
+  );
+  return { ...timeline, nodes: [...timeline.nodes, ...nodes] };
+}
+
+export function runTimelineReducer(
+  timeline: RunTimeline,
+  action: RunTimelineAction,
+): RunTimeline {
+  switch (action.type) {
+    case "start":
+      return { ...EMPTY_RUN_TIMELINE, startedAt: action.at };
+    case "reset":
+      return EMPTY_RUN_TIMELINE;
+    case "debug":
+      return applyDebugEvent(timeline, action.data, action.at);
+    case "updates":
+      return applyUpdatesEvent(timeline, action.data, action.at);
+    case "finish":
+      // Tasks without a result were cancelled or the stream was interrupted.
+      return {
+        ...timeline,
+        nodes: timeline.nodes.map((node) =>
+          node.status === "running"
+            ? { ...node, status: "interrupted", endedAt: action.at }
+            : node,
+        ),
+      };
+  }
+}
+
+export function isInterruptNode(node: RunTimelineNode) {
+  return node.name === INTERRUPT_NODE;
+}
+
+export function formatDuration(ms: number): string {
+  if (ms < 1000) return `${Math.max(0, Math.round(ms))} ms`;
+  const seconds = ms / 1000;
+  if (seconds < 60) return `${seconds.toFixed(1)} s`;
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}m ${Math.floor(seconds % 60)}s`;
+}
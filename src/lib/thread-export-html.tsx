@@ -0,0 +1,103 @@
+import { flushSync } from "react-dom";
+import { createRoot } from "react-dom/client";
+import { resolveLanguage } from "@/components/thread/code-languages";
+
+const REPORT_STYLES = `
+  body { font-family: system-ui, -apple-system, sans-serif; line-height: 1.6; color: #18181b; max-width: 48rem; margin: 2rem auto; padding: 0 1rem; }
+  h1 { font-size: 1.75rem; }
+  h2 { font-size: 1.125rem; margin-top: 2rem; padding-bottom: 0.25rem; border-bottom: 1px solid #e4e4e7; }
+  pre { border-radius: 0.5rem; overflow-x: auto; font-size: 0.85rem; }
+  code { font-family: ui-monospace, SFMono-Regular, Menlo, monospace; }
+  :not(pre) > code { background: #f4f4f5; border-radius: 0.25rem; padding: 0.1rem 0.3rem; }
+  table { border-collapse: collapse; }
+  th, td { border: 1px solid #e4e4e7; padding: 0.25rem 0.5rem; }
+  img { max-width: 100%; }
+`;
+
+function escapeHtml(text: string) {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Renders the Markdown export of a thread as a standalone HTML document. Code
+ * is highlighted with inline styles and math is rendered by KaTeX as MathML,
+ * so the file needs no external stylesheets, scripts or fonts.
+ */
+export async function markdownToHtmlDocument(
+  markdown: string,
+  title: string,
+): Promise<string> {
+  // Only loaded when exporting, since the full Prism build is large.
+  const [
+    { default: ReactMarkdown },
+    { default: remarkGfm },
+    { default: remarkMath },
+    { default: rehypeKatex },
+    { Prism },
+    { coldarkDark },
+  ] = await Promise.all([
+    import("react-markdown"),
+    import("remark-gfm"),
+    import("remark-math"),
+    import("rehype-katex"),
+    import("react-syntax-highlighter"),
+    import("react-syntax-highlighter/dist/cjs/styles/prism"),
+  ]);
+
+  const container = document.createElement("div");
+  const root = createRoot(container);
+  flushSync(() => {
+    root.render(
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm, remarkMath]}
+        rehypePlugins={[[rehypeKatex, { output: "mathml" }]]}
+        components={{
+          code({ className, children, ...props }) {
+            const match = /language-([\w+#-]+)/.exec(className || "");
+            if (!match) {
+              return (
+                <code
+                  className={className}
+                  {...props}
+                >
+                  {children}
+                </code>
+              );
+            }
+            return (
+              <Prism
+                language={resolveLanguage(match[1])}
+                style={coldarkDark}
+                PreTag="div"
+              >
+                {String(children).replace(/\n$/, "")}
+              </Prism>
+            );
+          },
+        }}
+      >
+        {markdown}
+      </ReactMarkdown>,
+    );
+  });
+  const body = container.innerHTML;
+  root.unmount();
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${REPORT_STYLES}</style>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+}
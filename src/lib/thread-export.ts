@@ -0,0 +1,202 @@
+import type { Message } from "@langchain/langgraph-sdk";
+import type { RunnableConfig } from "@/components/config/runnable-config-panel";
+import { DO_NOT_RENDER_ID_PREFIX } from "./ensure-tool-responses";
+
+export const THREAD_EXPORT_VERSION = 1;
+
+export type ThreadExportFormat = "markdown" | "json" | "html";
+
+/**
+ * A serialized thread, as written by the JSON export.
+ */
+export interface ThreadExport {
+  version: number;
+  exported_at: string;
+  thread_id: string | null;
+  assistant_id: string;
+  /** The config the thread was last run with. */
+  config: RunnableConfig;
+  /** The thread state, including `messages` and `ui` messages. */
+  values: Record<string, unknown> & { messages: Message[] };
+}
+
+export function createThreadExport({
+  threadId,
+  assistantId,
+  config,
+  values,
+}: {
+  threadId: string | null;
+  assistantId: string;
+  config: RunnableConfig;
+  values: Record<string, unknown> & { messages?: Message[] };
+}): ThreadExport {
+  return {
+    version: THREAD_EXPORT_VERSION,
+    exported_at: new Date().toISOString(),
+    thread_id: threadId,
+    assistant_id: assistantId,
+    config,
+    values: { ...values, messages: values.messages ?? [] },
+  };
+}
+
+/**
+ * Wraps `content` in a code fence longer than any run of backticks inside it.
+ */
+function fence(content: string, language = ""): string {
+  const longestRun = Math.max(
+    0,
+    ...(content.match(/`+/g) ?? []).map((run) => run.length),
+  );
+  const marker = "`".repeat(Math.max(3, longestRun + 1));
+  return `${marker}${language}\n${content}\n${marker}`;
+}
+
+function contentToMarkdown(content: Message["content"]): string {
+  if (typeof content === "string") return content;
+  return content
+    .map((block) => {
+      if (block.type === "text") return block.text;
+      // Attachments are referenced by name rather than inlined.
+      const metadata = (
+        block as { metadata?: { filename?: string; name?: string } }
+      ).metadata;
+      const name = metadata?.filename ?? metadata?.name;
+      return `_[${block.type}${name ? `: ${name}` : ""}]_`;
+    })
+    .join("\n\n");
+}
+
+function formatToolResult(content: Message["content"]): string {
+  const text =
+    typeof content === "string" ? content : JSON.stringify(content, null, 2);
+  try {
+    return fence(JSON.stringify(JSON.parse(text), null, 2), "json");
+  } catch {
+    return fence(text);
+  }
+}
+
+function getMessageHeading(message: Message): string {
+  switch (message.type) {
+    case "human":
+      return "User";
+    case "ai":
+      return "Assistant";
+    case "tool":
+      return `Tool result${message.name ? `: \`${message.name}\`` : ""}`;
+    case "system":
+      return "System";
+    default:
+      return message.type;
+  }
+}
+
+/**
+ * Renders the thread as Markdown, with tool calls and tool results in fenced
+ * blocks and the run config at the top.
+ */
+export function threadToMarkdown(thread: ThreadExport, title: string): string {
+  const sections = [
+    `# ${title}`,
+    [
+      thread.thread_id && `- Thread: \`${thread.thread_id}\``,
+      `- Assistant: \`${thread.assistant_id}\``,
+      `- Exported: ${new Date(thread.exported_at).toLocaleString()}`,
+    ]
+      .filter(Boolean)
+      .join("\n"),
+    `## Run config\n\n${fence(JSON.stringify(thread.config, null, 2), "json")}`,
+  ];
+
+  for (const message of thread.values.messages) {
+    if (message.id?.startsWith(DO_NOT_RENDER_ID_PREFIX)) continue;
+
+    const parts = [`## ${getMessageHeading(message)}`];
+    if (message.type === "tool") {
+      parts.push(formatToolResult(message.content));
+    } else {
+      const text = contentToMarkdown(message.content).trim();
+      if (text) parts.push(text);
+    }
+    if (message.type === "ai") {
+      for (const toolCall of message.tool_calls ?? []) {
+        parts.push(
+          `**Tool call: \`${toolCall.name}\`**\n\n${fence(
+            JSON.stringify(toolCall.args, null, 2),
+            "json",
+          )}`,
+        );
+      }
+    }
+    sections.push(parts.join("\n\n"));
+  }
+
+  return `${sections.join("\n\n")}\n`;
+}
+
+export function threadToJson(thread: ThreadExport): string {
+  return JSON.stringify(thread, null, 2);
+}
+
+export function getExportFilename(
+  thread: ThreadExport,
+  format: ThreadExportFormat,
+): string {
+  const extension = { markdown: "md", json: "json", html: "html" }[format];
+  const date = thread.exported_at.slice(0, 10);
+  const id = thread.thread_id ? `-${thread.thread_id.slice(0, 8)}` : "";
+  return `thread${id}-${date}.${extension}`;
+}
+
+function isRecord(value: unknown): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isMessage(value: unknown): value is Message {
+  return (
+    isRecord(value) &&
+    typeof value.type === "string" &&
+    (typeof value.content === "string" || Array.isArray(value.content))
+  );
+}
+
+/**
+ * Parses a thread written by the JSON export. A bare list of messages, or an
+ * object with a `messages` list, is accepted as well.
+ * @throws {Error} if the file does not contain any valid messages.
+ */
+export function parseThreadExport(text: string): ThreadExport {
+  const parsed: unknown = JSON.parse(text);
+  const values: Record<string, unknown> = Array.isArray(parsed)
+    ? { messages: parsed }
+    : isRecord(parsed) && isRecord(parsed.values)
+      ? parsed.values
+      : isRecord(parsed)
+        ? parsed
+        : {};
+
+  if (
+    !Array.isArray(values.messages) ||
+    values.messages.length === 0 ||
+    !values.messages.every(isMessage)
+  ) {
+    throw new Error("No valid messages found in file.");
+  }
+
+  const meta: Record<string, any> =
+    isRecord(parsed) && isRecord(parsed.values) ? parsed : {};
+  return {
+    version: typeof meta.version === "number" ? meta.version : 0,
+    exported_at:
+      typeof meta.exported_at === "string"
+        ? meta.exported_at
+        : new Date().toISOString(),
+    thread_id: typeof meta.thread_id === "string" ? meta.thread_id : null,
+    assistant_id:
+      typeof meta.assistant_id === "string" ? meta.assistant_id : "",
+    config: isRecord(meta.config) ? meta.config : {},
+    values: values as ThreadExport["values"],
+  };
+}
@@ -4,6 +4,9 @@ import React, {
   ReactNode,
   useState,
   useEffect,
+  useCallback,
+  useReducer,
+  useRef,
 } from "react";
 import { useStream } from "@langchain/langgraph-sdk/react";
 import { type Message } from "@langchain/langgraph-sdk";
@@ -22,9 +25,27 @@ import { Label } from "@/components/ui/label";
 import { ArrowRight } from "lucide-react";
 import { PasswordInput } from "@/components/ui/password-input";
 import { getApiKey } from "@/lib/api-key";
+import { checkGraphStatus } from "@/lib/connections";
+import { useConnections } from "@/hooks/use-connections";
+import { ConnectionList } from "@/components/connections/connection-list";
 import { useThreads } from "./Thread";
 import { toast } from "sonner";
 import { RunnableConfig } from "@/components/config/runnable-config-panel";
+import { useConfigSchema } from "@/hooks/use-config-schema";
+import { useThreadConfig } from "@/hooks/use-thread-config";
+import { useAutoDecisionLog } from "@/hooks/use-auto-decision-log";
+import { getSchemaDefaults, type JSONSchema } from "@/lib/config-schema";
+import {
+  DEFAULT_RUNNABLE_CONFIG,
+  getStoredRunnableConfig,
+  setStoredRunnableConfig,
+} from "@/lib/config-storage";
+import {
+  EMPTY_RUN_TIMELINE,
+  RunTimeline,
+  runTimelineReducer,
+} from "@/lib/run-timeline";
+import type { AutoDecisionLogEntry } from "@/lib/interrupt-policies";
 
 export type StateType = { messages: Message[]; ui?: UIMessage[] };
 
@@ -43,6 +64,26 @@ const useTypedStream = useStream<
 type StreamContextType = ReturnType<typeof useTypedStream> & {
   runnableConfig: RunnableConfig;
   setRunnableConfig: (config: RunnableConfig) => void;
+  resetRunnableConfig: () => void;
+  /**
+   * The config used by the latest run of the current thread, if known.
+   */
+  threadConfig: RunnableConfig | undefined;
+  configSchema: JSONSchema | undefined;
+  configSchemaLoading: boolean;
+  /**
+   * Graph nodes executed by the latest run, from the `debug` and `updates`
+   * stream events.
+   */
+  runTimeline: RunTimeline;
+  /** ID of the latest run streamed by this session, once known. */
+  runId: string | undefined;
+  /** Requests of the current thread answered by interrupt policies. */
+  autoDecisionLog: AutoDecisionLogEntry[];
+  logAutoDecisions: (
+    threadId: string,
+    entries: AutoDecisionLogEntry[],
+  ) => Promise<void>;
 };
 const StreamContext = createContext<StreamContextType | undefined>(undefined);
 
@@ -50,26 +91,6 @@ async function sleep(ms = 4000) {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
-async function checkGraphStatus(
-  apiUrl: string,
-  apiKey: string | null,
-): Promise<boolean> {
-  try {
-    const res = await fetch(`${apiUrl}/info`, {
-      ...(apiKey && {
-        headers: {
-          "X-Api-Key": apiKey,
-        },
-      }),
-    });
-
-    return res.ok;
-  } catch (e) {
-    console.error(e);
-    return false;
-  }
-}
-
 const StreamSession = ({
   children,
   apiKey,
@@ -82,13 +103,39 @@ const StreamSession = ({
   assistantId: string;
 }) => {
   const [threadId, setThreadId] = useQueryState("threadId");
-  const [runnableConfig, setRunnableConfig] = useState<RunnableConfig>({
-    tags: [],
-    metadata: {},
-    recursion_limit: 25,
-    configurable: {},
+  const [runnableConfig, _setRunnableConfig] = useState<RunnableConfig>(() =>
+    getStoredRunnableConfig(),
+  );
+  const { schema: configSchema, loading: configSchemaLoading } =
+    useConfigSchema({ apiUrl, apiKey, assistantId });
+
+  const setRunnableConfig = useCallback((config: RunnableConfig) => {
+    setStoredRunnableConfig(config);
+    _setRunnableConfig(config);
+  }, []);
+
+  const resetRunnableConfig = useCallback(() => {
+    setRunnableConfig({
+      ...DEFAULT_RUNNABLE_CONFIG,
+      configurable: configSchema ? getSchemaDefaults(configSchema) : {},
+    });
+  }, [configSchema, setRunnableConfig]);
+
+  const { threadConfig, recordRunConfig, onThreadCreated, onRunStarted } =
+    useThreadConfig({ apiUrl, apiKey, threadId });
+
+  const { autoDecisionLog, logAutoDecisions } = useAutoDecisionLog({
+    apiUrl,
+    apiKey,
+    threadId,
   });
+
   const { getThreads, setThreads } = useThreads();
+  const [runTimeline, dispatchRunTimeline] = useReducer(
+    runTimelineReducer,
+    EMPTY_RUN_TIMELINE,
+  );
+  const [runId, setRunId] = useState<string>();
 
   const streamValue = useTypedStream({
     apiUrl,
@@ -103,20 +150,63 @@ const StreamSession = ({
         });
       }
     },
+    // Registering these callbacks adds the `updates` and `debug` stream modes
+    // to every run.
+    onUpdateEvent: (data) =>
+      dispatchRunTimeline({ type: "updates", data, at: Date.now() }),
+    onDebugEvent: (data) =>
+      dispatchRunTimeline({ type: "debug", data, at: Date.now() }),
+    onMetadataEvent: (data) => {
+      setRunId(data.run_id);
+      onRunStarted();
+    },
     onThreadId: (id) => {
       setThreadId(id);
+      onThreadCreated(id);
       // Refetch threads list when thread ID changes.
       // Wait for some seconds before fetching so we're able to get the new thread that was created.
       sleep().then(() => getThreads().then(setThreads).catch(console.error));
     },
   });
 
+  const submit: typeof streamValue.submit = (values, options) => {
+    if (options?.config) {
+      recordRunConfig(options.config as RunnableConfig);
+    }
+    dispatchRunTimeline({ type: "start", at: Date.now() });
+    setRunId(undefined);
+    return streamValue.submit(values, options);
+  };
+
   const extendedStreamValue = {
     ...streamValue,
+    submit,
     runnableConfig,
     setRunnableConfig,
+    resetRunnableConfig,
+    threadConfig,
+    configSchema,
+    configSchemaLoading,
+    runTimeline,
+    runId,
+    autoDecisionLog,
+    logAutoDecisions,
   };
 
+  useEffect(() => {
+    if (!streamValue.isLoading) {
+      dispatchRunTimeline({ type: "finish", at: Date.now() });
+    }
+  }, [streamValue.isLoading]);
+
+  // The timeline belongs to the thread it ran on. A thread created by the
+  // current run keeps it.
+  const isLoadingRef = useRef(streamValue.isLoading);
+  isLoadingRef.current = streamValue.isLoading;
+  useEffect(() => {
+    if (!isLoadingRef.current) dispatchRunTimeline({ type: "reset" });
+  }, [threadId]);
+
   useEffect(() => {
     checkGraphStatus(apiUrl, apiKey).then((ok) => {
       if (!ok) {
@@ -176,9 +266,22 @@ export const StreamProvider: React.FC<{ children: ReactNode }> = ({
   // Determine final values to use, prioritizing URL params then env vars
   const finalApiUrl = apiUrl || envApiUrl;
   const finalAssistantId = assistantId || envAssistantId;
+  const showSetupForm = !finalApiUrl || !finalAssistantId;
+
+  const {
+    connections,
+    statuses,
+    saveConnection,
+    deleteConnection,
+    selectConnection,
+    checkConnections,
+  } = useConnections();
+  useEffect(() => {
+    if (showSetupForm) checkConnections();
+  }, [showSetupForm, checkConnections]);
 
   // Show the form if we: don't have an API URL, or don't have an assistant ID
-  if (!finalApiUrl || !finalAssistantId) {
+  if (showSetupForm) {
     return (
       <div className="flex min-h-screen w-full items-center justify-center p-4">
         <div className="animate-in fade-in-0 zoom-in-95 bg-background flex max-w-3xl flex-col rounded-lg border shadow-lg">
@@ -203,7 +306,15 @@ export const StreamProvider: React.FC<{ children: ReactNode }> = ({
               const apiUrl = formData.get("apiUrl") as string;
               const assistantId = formData.get("assistantId") as string;
               const apiKey = formData.get("apiKey") as string;
+              const connectionName = formData.get("connectionName") as string;
 
+              if (connectionName.trim()) {
+                saveConnection({
+                  name: connectionName,
+                  deploymentUrl: apiUrl,
+                  graphId: assistantId,
+                });
+              }
               setApiUrl(apiUrl);
               setApiKey(apiKey);
               setAssistantId(assistantId);
@@ -212,6 +323,23 @@ export const StreamProvider: React.FC<{ children: ReactNode }> = ({
             }}
             className="bg-muted/50 flex flex-col gap-6 p-6"
           >
+            {connections.length > 0 && (
+              <div className="flex flex-col gap-2">
+                <Label>Saved connections</Label>
+                <p className="text-muted-foreground text-sm">
+                  Pick a saved connection, or enter a new one below.
+                </p>
+                <div className="bg-background rounded-md border p-1">
+                  <ConnectionList
+                    connections={connections}
+                    statuses={statuses}
+                    onSelect={selectConnection}
+                    onDelete={(connection) => deleteConnection(connection.id)}
+                  />
+                </div>
+              </div>
+            )}
+
             <div className="flex flex-col gap-2">
               <Label htmlFor="apiUrl">
                 Deployment URL<span className="text-rose-500">*</span>
@@ -264,6 +392,20 @@ export const StreamProvider: React.FC<{ children: ReactNode }> = ({
               />
             </div>
 
+            <div className="flex flex-col gap-2">
+              <Label htmlFor="connectionName">Connection name</Label>
+              <p className="text-muted-foreground text-sm">
+                Optional. Named connections are saved in your browser and can be
+                switched between from the header.
+              </p>
+              <Input
+                id="connectionName"
+                name="connectionName"
+                className="bg-background"
+                placeholder="e.g. Local Ollama"
+              />
+            </div>
+
             <div className="mt-2 flex justify-end">
               <Button
                 type="submit"
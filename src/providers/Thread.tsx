@@ -1,29 +1,66 @@
 import { validate } from "uuid";
 import { getApiKey } from "@/lib/api-key";
-import { Thread } from "@langchain/langgraph-sdk";
-import { useQueryState } from "nuqs";
+import { Thread, ThreadStatus } from "@langchain/langgraph-sdk";
+import { parseAsStringLiteral, useQueryState } from "nuqs";
 import {
   createContext,
   useContext,
   ReactNode,
   useCallback,
+  useRef,
   useState,
   Dispatch,
   SetStateAction,
 } from "react";
 import { createClient } from "./client";
 
+export const THREADS_PAGE_SIZE = 100;
+
+/**
+ * Filters applied to the thread history. `status` and `metadata` are sent to
+ * the server. The server can't search by text or date, so `query` and the
+ * date range are applied to the loaded threads, and the history keeps loading
+ * pages while they are set.
+ */
+export interface ThreadFilters {
+  query: string;
+  status?: ThreadStatus;
+  metadata: Record<string, unknown>;
+  /** ISO date (yyyy-MM-dd), inclusive. */
+  from?: string;
+  /** ISO date (yyyy-MM-dd), inclusive. */
+  to?: string;
+}
+
+/**
+ * How the thread history is grouped. Grouping by assistant lists the threads
+ * of every assistant and graph, not just the current one.
+ */
+export const THREAD_GROUPINGS = ["date", "assistant"] as const;
+export type ThreadGrouping = (typeof THREAD_GROUPINGS)[number];
+
+export const EMPTY_THREAD_FILTERS: ThreadFilters = {
+  query: "",
+  metadata: {},
+};
+
 interface ThreadContextType {
-  getThreads: () => Promise<Thread[]>;
+  getThreads: (options?: { offset?: number }) => Promise<Thread[]>;
   threads: Thread[];
   setThreads: Dispatch<SetStateAction<Thread[]>>;
   threadsLoading: boolean;
   setThreadsLoading: Dispatch<SetStateAction<boolean>>;
+  hasMoreThreads: boolean;
+  loadMoreThreads: () => Promise<void>;
+  threadFilters: ThreadFilters;
+  setThreadFilters: Dispatch<SetStateAction<ThreadFilters>>;
+  threadGrouping: ThreadGrouping;
+  setThreadGrouping: (grouping: ThreadGrouping) => void;
 }
 
 const ThreadContext = createContext<ThreadContextType | undefined>(undefined);
 
-function getThreadSearchMetadata(
+export function getThreadSearchMetadata(
   assistantId: string,
 ): { graph_id: string } | { assistant_id: string } {
   if (validate(assistantId)) {
@@ -38,20 +75,55 @@ export function ThreadProvider({ children }: { children: ReactNode }) {
   const [assistantId] = useQueryState("assistantId");
   const [threads, setThreads] = useState<Thread[]>([]);
   const [threadsLoading, setThreadsLoading] = useState(false);
+  const [hasMoreThreads, setHasMoreThreads] = useState(false);
+  const [threadFilters, setThreadFilters] =
+    useState<ThreadFilters>(EMPTY_THREAD_FILTERS);
+  const [threadGrouping, setThreadGrouping] = useQueryState(
+    "historyGroupBy",
+    parseAsStringLiteral(THREAD_GROUPINGS).withDefault("date"),
+  );
+  // Offset of the next page on the server, which drifts from `threads.length`
+  // as threads are deleted, duplicated or imported locally.
+  const nextOffset = useRef(0);
 
-  const getThreads = useCallback(async (): Promise<Thread[]> => {
-    if (!apiUrl || !assistantId) return [];
-    const client = createClient(apiUrl, getApiKey() ?? undefined);
+  const getThreads = useCallback(
+    async ({ offset = 0 }: { offset?: number } = {}): Promise<Thread[]> => {
+      if (!apiUrl || !assistantId) return [];
+      const client = createClient(apiUrl, getApiKey() ?? undefined);
 
-    const threads = await client.threads.search({
-      metadata: {
-        ...getThreadSearchMetadata(assistantId),
-      },
-      limit: 100,
-    });
+      const threads = await client.threads.search({
+        metadata: {
+          ...threadFilters.metadata,
+          ...(threadGrouping === "assistant"
+            ? {}
+            : getThreadSearchMetadata(assistantId)),
+        },
+        status: threadFilters.status,
+        limit: THREADS_PAGE_SIZE,
+        offset,
+      });
+      // A full page means there may be more threads to load.
+      setHasMoreThreads(threads.length === THREADS_PAGE_SIZE);
+      nextOffset.current = offset + threads.length;
 
-    return threads;
-  }, [apiUrl, assistantId]);
+      return threads;
+    },
+    [
+      apiUrl,
+      assistantId,
+      threadFilters.metadata,
+      threadFilters.status,
+      threadGrouping,
+    ],
+  );
+
+  const loadMoreThreads = useCallback(async () => {
+    const page = await getThreads({ offset: nextOffset.current });
+    setThreads((prev) => {
+      const known = new Set(prev.map((t) => t.thread_id));
+      return [...prev, ...page.filter((t) => !known.has(t.thread_id))];
+    });
+  }, [getThreads]);
 
   const value = {
     getThreads,
@@ -59,6 +131,13 @@ export function ThreadProvider({ children }: { children: ReactNode }) {
     setThreads,
     threadsLoading,
     setThreadsLoading,
+    hasMoreThreads,
+    loadMoreThreads,
+    threadFilters,
+    setThreadFilters,
+    threadGrouping,
+    setThreadGrouping: (grouping: ThreadGrouping) =>
+      setThreadGrouping(grouping),
   };
 
   return (